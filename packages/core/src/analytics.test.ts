@@ -2,7 +2,12 @@
  * Unit tests for Augur Analytics Core
  */
 
-import { createAnalytics, AugurAnalytics } from "./analytics";
+import { CompressionStream, DecompressionStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import { createAnalytics, AugurAnalytics, getAnalytics } from "./analytics";
+import { gunzip } from "./compression";
+import { MemoryStorageAdapter } from "./storage";
+import { FetchTransport, MemoryTransport } from "./transport";
 
 // Mock fetch and sendBeacon
 const mockFetch = jest.fn();
@@ -91,9 +96,16 @@ describe("AugurAnalytics", () => {
       batchSize: 2,
       batchTimeout: 1000,
       debug: false,
+      sessionEvents: false, // Keep queues to the events each test tracks
     });
   });
 
+  afterEach(() => {
+    // Tear instances down so their queues and wrappers don't leak into the next test
+    getAnalytics("test-write-key")?.destroy();
+    getAnalytics("test-key")?.destroy();
+  });
+
   describe("Initialization", () => {
     it("should create analytics instance with config", () => {
       expect(analytics).toBeInstanceOf(AugurAnalytics);
@@ -139,111 +151,1521 @@ describe("AugurAnalytics", () => {
       analytics.track("event1", { data: "1" });
       analytics.track("event2", { data: "2" });
 
-      // Wait for flush
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      // Wait for flush
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockSendBeacon).toHaveBeenCalled();
+    });
+
+    it("should respect event name override", () => {
+      analytics.track(
+        "event_type",
+        { data: "test" },
+        undefined,
+        "Custom Event Name"
+      );
+
+      // Event should be queued with custom name
+      expect(analytics).toBeDefined();
+    });
+
+    it("should include write_key in event payload", () => {
+      analytics.track("test_event", { test: "data" });
+      // The write_key should be included in the payload
+      expect(analytics).toBeDefined();
+    });
+  });
+
+  describe("Batching", () => {
+    it("should batch multiple events", async () => {
+      mockSendBeacon.mockReturnValue(true);
+
+      analytics.track("event1");
+      analytics.track("event2");
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockSendBeacon).toHaveBeenCalledTimes(1);
+      const callArgs = mockSendBeacon.mock.calls[0];
+      const blob = callArgs[1] as Blob;
+
+      expect(blob).toBeInstanceOf(Blob);
+    });
+
+    it("should flush on timeout", async () => {
+      mockSendBeacon.mockReturnValue(true);
+
+      analytics.track("single_event");
+
+      // Wait for timeout (1000ms + buffer)
+      await new Promise((resolve) => setTimeout(resolve, 1200));
+
+      expect(mockSendBeacon).toHaveBeenCalled();
+    });
+
+    it("should manual flush", async () => {
+      mockSendBeacon.mockReturnValue(true);
+
+      analytics.track("event1");
+      analytics.flushQueue();
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockSendBeacon).toHaveBeenCalled();
+    });
+  });
+
+  describe("Retry Logic", () => {
+    it("should fallback to fetch when sendBeacon fails", async () => {
+      mockSendBeacon.mockReturnValue(false);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true }),
+      });
+
+      analytics.track("event1");
+      analytics.track("event2");
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockSendBeacon).toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
+    it("should persist failed events to localStorage", async () => {
+      jest.useFakeTimers();
+
+      mockSendBeacon.mockReturnValue(false);
+      mockFetch.mockRejectedValue(new Error("Network error"));
+
+      analytics.track("failed_event", { data: "test" });
+      analytics.flushQueue();
+
+      // Fast-forward through all retries (1s + 2s + 3s = 6s)
+      await jest.advanceTimersByTimeAsync(6500);
+
+      // Check if event was persisted
+      const stored = localStorage.getItem(
+        `augur_events_${analytics.getSessionId()}`
+      );
+      expect(stored).toBeTruthy();
+
+      if (stored) {
+        const events = JSON.parse(stored);
+        expect(events.length).toBeGreaterThan(0);
+      }
+
+      jest.useRealTimers();
+    });
+  });
+
+  describe("Custom Transport", () => {
+    it("should send batches through the configured transport", async () => {
+      const transport = new MemoryTransport();
+      const customAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 2,
+        transport,
+      });
+
+      customAnalytics.track("event1");
+      customAnalytics.track("event2");
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockSendBeacon).not.toHaveBeenCalled();
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.requests[0].url).toBe(
+        "https://test.com/api/v1/api/v1/analytics/events"
+      );
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "event1",
+        "event2",
+      ]);
+    });
+  });
+
+  describe("Plugins", () => {
+    let transport: MemoryTransport;
+    let pluginAnalytics: AugurAnalytics;
+
+    beforeEach(() => {
+      transport = new MemoryTransport();
+      pluginAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+      });
+    });
+
+    it("should enrich events before they are queued", async () => {
+      pluginAnalytics.use({
+        name: "environment",
+        beforeEnqueue: (event) => {
+          event.properties.environment = "staging";
+        },
+      });
+
+      pluginAnalytics.track("test_event");
+      pluginAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents()[0].properties.environment).toBe("staging");
+    });
+
+    it("should drop events when a plugin returns null", async () => {
+      pluginAnalytics.use({
+        name: "drop-internal",
+        beforeEnqueue: (event) =>
+          event.event_type.startsWith("internal_") ? null : event,
+      });
+
+      pluginAnalytics.track("internal_debug");
+      pluginAnalytics.track("kept_event");
+      pluginAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "kept_event",
+      ]);
+    });
+
+    it("should run plugins in registration order", async () => {
+      const order: string[] = [];
+      pluginAnalytics
+        .use({ name: "first", beforeSend: () => void order.push("first") })
+        .use({ name: "second", beforeSend: () => void order.push("second") });
+
+      pluginAnalytics.track("test_event");
+      pluginAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(order).toEqual(["first", "second"]);
+    });
+
+    it("should replace events returned from beforeSend", async () => {
+      pluginAnalytics.use({
+        name: "scrub-email",
+        beforeSend: (event) => ({
+          ...event,
+          properties: { ...event.properties, email: undefined },
+        }),
+      });
+
+      pluginAnalytics.track("signup", { email: "user@example.com" });
+      pluginAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents()[0].properties.email).toBeUndefined();
+    });
+
+    it("should call lifecycle hooks", async () => {
+      const plugin = {
+        name: "lifecycle",
+        setup: jest.fn(),
+        onIdentify: jest.fn(),
+        onReset: jest.fn(),
+        onFlush: jest.fn(),
+        afterSend: jest.fn(),
+      };
+      pluginAnalytics.use(plugin);
+
+      await pluginAnalytics.identify("user-123", { plan: "pro" });
+      await pluginAnalytics.reset();
+      pluginAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(plugin.setup).toHaveBeenCalledWith(pluginAnalytics);
+      expect(plugin.onIdentify).toHaveBeenCalledWith("user-123", {
+        plan: "pro",
+      });
+      expect(plugin.onReset).toHaveBeenCalled();
+      expect(plugin.onFlush).toHaveBeenCalledTimes(1);
+      expect(plugin.afterSend).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ event_type: "user_identified" }),
+        ])
+      );
+    });
+
+    it("should keep tracking when a plugin throws", async () => {
+      pluginAnalytics.use({
+        name: "broken",
+        beforeEnqueue: () => {
+          throw new Error("boom");
+        },
+      });
+
+      pluginAnalytics.track("test_event");
+      pluginAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents()).toHaveLength(1);
+    });
+  });
+
+  describe("Consent", () => {
+    let transport: MemoryTransport;
+    let consentAnalytics: AugurAnalytics;
+
+    beforeEach(() => {
+      sessionStorageMock.clear();
+      transport = new MemoryTransport();
+      consentAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        requireConsent: true,
+        transport,
+      });
+    });
+
+    it("should start with every category pending", () => {
+      expect(consentAnalytics.getConsent()).toEqual({
+        analytics: undefined,
+        storage: undefined,
+        deviceInfo: undefined,
+      });
+    });
+
+    it("should hold events until analytics consent is granted", async () => {
+      consentAnalytics.track("held_event");
+      consentAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.requests).toHaveLength(0);
+
+      consentAnalytics.setConsent({ analytics: true });
+      consentAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "session_started",
+        "held_event",
+      ]);
+    });
+
+    it("should purge held events and drop new ones on denial", async () => {
+      consentAnalytics.track("held_event");
+      consentAnalytics.setConsent({ analytics: false });
+      consentAnalytics.track("denied_event");
+
+      consentAnalytics.setConsent({ analytics: true });
+      consentAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.requests).toHaveLength(0);
+    });
+
+    it("should not touch storage until storage consent is granted", () => {
+      consentAnalytics.track("test_event");
+      expect(sessionStorageMock.getItem("augur_session_id")).toBeNull();
+
+      consentAnalytics.setConsent({ storage: true });
+
+      const stored = JSON.parse(
+        sessionStorageMock.getItem("augur_session_id")!
+      );
+      expect(stored.sessionId).toBe(consentAnalytics.getSessionId());
+    });
+
+    it("should clear stored data when storage consent is denied", () => {
+      consentAnalytics.setConsent({ storage: true });
+      localStorageMock.setItem("augur_events_old", JSON.stringify([{}]));
+
+      consentAnalytics.setConsent({ storage: false });
+
+      expect(sessionStorageMock.getItem("augur_session_id")).toBeNull();
+      expect(localStorageMock.getItem("augur_events_old")).toBeNull();
+    });
+
+    it("should only attach device info with consent", async () => {
+      consentAnalytics.track("before_consent");
+      consentAnalytics.setConsent({ analytics: true });
+      consentAnalytics.track("without_device_info");
+      consentAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const [first, second] = transport.getEvents().slice(-2);
+      expect(first.properties.device_info).toBeUndefined();
+      expect(second.properties.device_info).toBeUndefined();
+
+      consentAnalytics.setConsent({ deviceInfo: true });
+      consentAnalytics.track("with_device_info");
+      consentAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(
+        transport.getEvents().slice(-1)[0].properties.device_info
+      ).toBeDefined();
+    });
+
+    it("should add device info to held events once granted", async () => {
+      consentAnalytics.track("held_event");
+      consentAnalytics.setConsent({ analytics: true, deviceInfo: true });
+      consentAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents()[0].properties.device_info).toBeDefined();
+    });
+  });
+
+  describe("Privacy Signals", () => {
+    afterEach(() => {
+      delete (window as any).__tcfapi;
+      delete (navigator as any).globalPrivacyControl;
+    });
+
+    it("should deny all categories when Global Privacy Control is set", () => {
+      (navigator as any).globalPrivacyControl = true;
+
+      const gpcAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+      });
+
+      expect(gpcAnalytics.getConsent()).toEqual({
+        analytics: false,
+        storage: false,
+        deviceInfo: false,
+      });
+    });
+
+    it("should remove data stored on earlier visits under Global Privacy Control", () => {
+      localStorageMock.setItem("augur_anonymous_id", "anon-earlier");
+      localStorageMock.setItem(
+        "augur_user",
+        JSON.stringify({ userId: "user-1", traits: {}, groups: {} })
+      );
+      sessionStorageMock.setItem(
+        "augur_session_id",
+        JSON.stringify({ sessionId: "sess-earlier", timestamp: Date.now() })
+      );
+      (navigator as any).globalPrivacyControl = true;
+
+      createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+      });
+
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBeNull();
+      expect(localStorageMock.getItem("augur_user")).toBeNull();
+      expect(sessionStorageMock.getItem("augur_session_id")).toBeNull();
+    });
+
+    it("should ignore Global Privacy Control when disabled", () => {
+      (navigator as any).globalPrivacyControl = true;
+
+      const gpcAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        privacySignals: { gpc: false },
+      });
+
+      expect(gpcAnalytics.getConsent().analytics).toBe(true);
+    });
+
+    it("should wait for the user's choice when a CMP is present", () => {
+      localStorageMock.clear();
+      sessionStorageMock.clear();
+      let listener: (tcData: any, success: boolean) => void = () => {};
+      (window as any).__tcfapi = (command: string, _v: number, cb: any) => {
+        if (command === "addEventListener") {
+          listener = cb;
+          cb({ gdprApplies: true, eventStatus: "cmpuishown" }, true);
+        }
+      };
+
+      const tcfAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+      });
+      tcfAnalytics.track("before_choice");
+
+      expect(tcfAnalytics.getConsent()).toEqual({
+        analytics: undefined,
+        storage: undefined,
+        deviceInfo: undefined,
+      });
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBeNull();
+      expect(sessionStorageMock.getItem("augur_session_id")).toBeNull();
+
+      listener(
+        {
+          gdprApplies: true,
+          eventStatus: "useractioncomplete",
+          purpose: { consents: { 1: true, 8: true } },
+        },
+        true
+      );
+      expect(tcfAnalytics.getConsent().storage).toBe(true);
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBe(
+        tcfAnalytics.getAnonymousId()
+      );
+    });
+
+    it("should read stored identity when the CMP answers right away", async () => {
+      localStorageMock.setItem("augur_anonymous_id", "anon-earlier");
+      sessionStorageMock.setItem(
+        "augur_session_id",
+        JSON.stringify({
+          sessionId: "sess-earlier",
+          timestamp: Date.now() - 2 * 60 * 60 * 1000,
+        })
+      );
+      (window as any).__tcfapi = (command: string, _v: number, cb: any) => {
+        if (command === "addEventListener") {
+          cb(
+            {
+              gdprApplies: true,
+              eventStatus: "tcloaded",
+              purpose: { consents: { 1: true, 8: true } },
+            },
+            true
+          );
+        }
+      };
+      const transport = new MemoryTransport();
+
+      const tcfAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        sessionEvents: true,
+      });
+      tcfAnalytics.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // The expired session from the earlier visit is ended, not forgotten
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "session_ended",
+        "session_started",
+      ]);
+      expect(transport.getEvents()[1].properties).toMatchObject({
+        reason: "timeout",
+        previous_session_id: "sess-earlier",
+        anonymous_id: "anon-earlier",
+      });
+    });
+
+    it("should follow TCF consent changes", () => {
+      let listener: (tcData: any, success: boolean) => void = () => {};
+      (window as any).__tcfapi = (command: string, _v: number, cb: any) => {
+        if (command === "addEventListener") {
+          listener = cb;
+        }
+      };
+
+      const tcfAnalytics = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        requireConsent: true,
+      });
+      expect(tcfAnalytics.getConsent().analytics).toBeUndefined();
+
+      listener(
+        {
+          gdprApplies: true,
+          eventStatus: "useractioncomplete",
+          purpose: { consents: { 1: true, 8: true } },
+        },
+        true
+      );
+      expect(tcfAnalytics.getConsent()).toEqual({
+        analytics: true,
+        storage: true,
+        deviceInfo: true,
+      });
+
+      listener(
+        {
+          gdprApplies: true,
+          eventStatus: "useractioncomplete",
+          purpose: { consents: { 8: true } },
+        },
+        true
+      );
+      expect(tcfAnalytics.getConsent().storage).toBe(false);
+    });
+  });
+
+  describe("Cross-tab Sessions", () => {
+    afterEach(() => {
+      localStorageMock.clear();
+    });
+
+    it("should share one session between tabs through localStorage", () => {
+      const tab1 = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        crossTab: true,
+      });
+
+      // A new tab has its own sessionStorage
+      sessionStorageMock.clear();
+
+      const tab2 = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        crossTab: true,
+      });
+
+      expect(tab2.getSessionId()).toBe(tab1.getSessionId());
+      const stored = JSON.parse(localStorageMock.getItem("augur_session_id")!);
+      expect(stored.sessionId).toBe(tab1.getSessionId());
+    });
+
+    it("should only drain persisted events from the leader tab", () => {
+      localStorageMock.setItem(
+        "augur_events_old-session",
+        JSON.stringify([{ event_type: "persisted" }])
+      );
+      localStorageMock.setItem(
+        "augur_analytics_leader",
+        JSON.stringify({ tabId: "other-tab", expires: Date.now() + 60000 })
+      );
+      const transport = new MemoryTransport();
+
+      createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        crossTab: true,
+        transport,
+      });
+
+      expect(transport.requests).toHaveLength(0);
+    });
+
+    it("should drain persisted events once when elected leader", async () => {
+      localStorageMock.setItem(
+        "augur_events_old-session",
+        JSON.stringify([{ event_type: "persisted" }])
+      );
+      const transport = new MemoryTransport();
+
+      createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        crossTab: true,
+        transport,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents()).toEqual([{ event_type: "persisted" }]);
+      expect(localStorageMock.getItem("augur_events_old-session")).toBeNull();
+    });
+  });
+
+  describe("Offline Storage", () => {
+    it("should persist failed batches and drain them oldest first", async () => {
+      const storage = new MemoryStorageAdapter();
+      const transport = new MemoryTransport({ ok: false, status: 500 });
+
+      const offline = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 2,
+        maxRetries: 1,
+        storage,
+        transport,
+      });
+      jest.useFakeTimers();
+      offline.track("first");
+      offline.track("second");
+      await jest.advanceTimersByTimeAsync(1500);
+      jest.useRealTimers();
+
+      expect((await storage.peek(10)).map((e) => e.event.event_type)).toEqual([
+        "first",
+        "second",
+      ]);
+
+      // Next page load with the network back
+      transport.setResponse({ ok: true, status: 200 });
+      transport.clear();
+      createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 1,
+        storage,
+        transport,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.requests).toHaveLength(2);
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "first",
+        "second",
+      ]);
+      expect(await storage.peek(10)).toEqual([]);
+    });
+  });
+
+  describe("Retry Scheduling", () => {
+    let transport: MemoryTransport;
+    let storage: MemoryStorageAdapter;
+    let retrying: AugurAnalytics;
+
+    const setOnline = (online: boolean) => {
+      Object.defineProperty(navigator, "onLine", {
+        configurable: true,
+        get: () => online,
+      });
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      transport = new MemoryTransport();
+      storage = new MemoryStorageAdapter();
+      retrying = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        storage,
+        transport,
+      });
+    });
+
+    afterEach(() => {
+      delete (navigator as any).onLine;
+      jest.useRealTimers();
+    });
+
+    it("should wait for Retry-After on 429 responses", async () => {
+      transport.setResponse({ ok: false, status: 429, retryAfter: 5000 });
+
+      retrying.track("event1");
+      retrying.flushQueue();
+      await jest.advanceTimersByTimeAsync(0);
+      transport.setResponse({ ok: true, status: 200 });
+
+      await jest.advanceTimersByTimeAsync(4900);
+      expect(transport.requests).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it("should not retry or persist rejected batches", async () => {
+      transport.setResponse({ ok: false, status: 400 });
+
+      retrying.track("invalid_event");
+      retrying.flushQueue();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(await storage.peek(10)).toEqual([]);
+    });
+
+    it("should resend persisted events without a reload", async () => {
+      transport.setResponse({ ok: false, status: 503 });
+
+      retrying.track("event1");
+      retrying.flushQueue();
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(await storage.peek(10)).toHaveLength(1);
+
+      transport.setResponse({ ok: true, status: 200 });
+      transport.clear();
+      await jest.advanceTimersByTimeAsync(30000);
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "event1",
+      ]);
+      expect(await storage.peek(10)).toEqual([]);
+    });
+
+    it("should pause while offline and drain on the online event", async () => {
+      setOnline(false);
+
+      retrying.track("offline_event");
+      retrying.flushQueue();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(transport.requests).toHaveLength(0);
+      expect(await storage.peek(10)).toHaveLength(1);
+
+      setOnline(true);
+      window.dispatchEvent(new Event("online"));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "offline_event",
+      ]);
+    });
+  });
+
+  describe("Delivery Acknowledgement", () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: true, status: 202 });
+      mockSendBeacon.mockReturnValue(true);
+    });
+
+    const createAcknowledged = (config = {}) =>
+      createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        maxRetries: 0,
+        deliveryMode: "acknowledged",
+        ...config,
+      });
+
+    it("should send with fetch and confirm delivery", async () => {
+      const acknowledged = createAcknowledged();
+      const onDelivered = jest.fn();
+      acknowledged.onDelivered(onDelivered);
+
+      acknowledged.track("event1");
+      acknowledged.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSendBeacon).not.toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onDelivered).toHaveBeenCalledWith(
+        expect.objectContaining({ event_type: "event1" }),
+        { transport: "fetch", status: 202, acknowledged: true }
+      );
+    });
+
+    it("should use the beacon transport on page unload", async () => {
+      const acknowledged = createAcknowledged();
+      const onDelivered = jest.fn();
+      acknowledged.onDelivered(onDelivered);
+
+      acknowledged.track("event1");
+      window.dispatchEvent(new Event("pagehide"));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSendBeacon).toHaveBeenCalled();
+      expect(onDelivered).toHaveBeenCalledWith(
+        expect.objectContaining({ event_type: "event1" }),
+        expect.objectContaining({
+          transport: "beacon+fetch",
+          acknowledged: false,
+        })
+      );
+    });
+
+    it("should report rejected events as failed", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400 });
+      const acknowledged = createAcknowledged();
+      const onDelivered = jest.fn();
+      const onFailed = jest.fn();
+      acknowledged.onDelivered(onDelivered);
+      acknowledged.onFailed(onFailed);
+
+      acknowledged.track("event1");
+      acknowledged.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onDelivered).not.toHaveBeenCalled();
+      expect(onFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ event_type: "event1" }),
+        expect.objectContaining({ persisted: false })
+      );
+    });
+
+    it("should report retryable failures as persisted", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+      const acknowledged = createAcknowledged({
+        storage: new MemoryStorageAdapter(),
+      });
+      const onFailed = jest.fn();
+      const unsubscribe = acknowledged.onFailed(onFailed);
+
+      acknowledged.track("event1");
+      acknowledged.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ event_type: "event1" }),
+        expect.objectContaining({ persisted: true })
+      );
+
+      unsubscribe();
+      onFailed.mockClear();
+      acknowledged.track("event2");
+      acknowledged.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(onFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Payload Compression", () => {
+    let transport: MemoryTransport;
+
+    beforeEach(() => {
+      transport = new MemoryTransport();
+    });
+
+    afterEach(() => {
+      delete (global as any).CompressionStream;
+      delete (global as any).DecompressionStream;
+    });
+
+    const createCompact = (config = {}) =>
+      createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        ...config,
+      });
+
+    it("should hoist shared context into a batch envelope", async () => {
+      const compact = createCompact({ batchFormat: "envelope" });
+
+      compact.track("event1");
+      compact.track("event2");
+      compact.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const body = JSON.parse(transport.requests[0].body as string);
+      expect(body).toMatchObject({
+        write_key: "test-write-key",
+        session_id: compact.getSessionId(),
+        source: "frontend",
+      });
+      expect(body.device_info).toHaveProperty("browser");
+      expect(body.events[0]).not.toHaveProperty("write_key");
+      expect(transport.getEvents().map((e) => e.write_key)).toEqual([
+        "test-write-key",
+        "test-write-key",
+      ]);
+    });
+
+    it("should gzip batches when CompressionStream is available", async () => {
+      Object.assign(global, { CompressionStream, DecompressionStream });
+      Object.assign(global, { TextEncoder, TextDecoder });
+      const compact = createCompact({ compression: true });
+
+      compact.track("event1");
+      compact.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const [request] = transport.requests;
+      expect(request.url).toBe(
+        "https://test.com/api/v1/api/v1/analytics/events?compression=gzip"
+      );
+      expect(typeof request.body).not.toBe("string");
+      const events = JSON.parse(await gunzip(request.body as ArrayBuffer));
+      expect(events[0].event_type).toBe("event1");
+    });
+
+    it("should send uncompressed without CompressionStream", async () => {
+      const compact = createCompact({ compression: true });
+
+      compact.track("event1");
+      compact.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.requests[0].url).toBe(
+        "https://test.com/api/v1/api/v1/analytics/events"
+      );
+      expect(transport.getEvents()[0].event_type).toBe("event1");
+    });
+  });
+
+  describe("Batch Size Limits", () => {
+    let transport: MemoryTransport;
+
+    beforeEach(() => {
+      transport = new MemoryTransport();
+    });
+
+    const createLimited = (config = {}) =>
+      createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        maxBatchBytes: 4000,
+        transport,
+        ...config,
+      });
+
+    it("should split a flush into requests under maxBatchBytes", async () => {
+      const limited = createLimited();
+
+      for (let i = 0; i < 5; i++) {
+        limited.track(`event${i}`, { blob: "x".repeat(1200) });
+      }
+      limited.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.requests.length).toBeGreaterThan(1);
+      for (const request of transport.requests) {
+        expect((request.body as string).length).toBeLessThanOrEqual(4000);
+      }
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "event0",
+        "event1",
+        "event2",
+        "event3",
+        "event4",
+      ]);
+    });
+
+    it("should keep batches beyond the beacon quota for the next page load", async () => {
+      const storage = new MemoryStorageAdapter();
+      const limited = createLimited({ maxBatchBytes: undefined, storage });
+      // Let the startup drain find the storage empty
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      for (let i = 0; i < 5; i++) {
+        limited.track(`event${i}`, { blob: "x".repeat(25000) });
+      }
+      window.dispatchEvent(new Event("pagehide"));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "event0",
+        "event1",
+      ]);
+      expect((await storage.peek(10)).map((e) => e.event.event_type)).toEqual([
+        "event2",
+        "event3",
+        "event4",
+      ]);
+    });
+
+    it("should truncate oversized events", async () => {
+      const limited = createLimited();
+
+      limited.track("huge_event", { html: "x".repeat(10000), id: 1 });
+      limited.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const [sent] = transport.getEvents();
+      expect(sent.properties.html).toBe("[truncated]");
+      expect(sent.properties.id).toBe(1);
+      expect(sent.properties.truncated_properties).toEqual(["html"]);
+    });
+
+    it("should drop oversized events when configured", async () => {
+      const limited = createLimited({ oversizedEvents: "drop" });
+
+      limited.track("huge_event", { html: "x".repeat(10000) });
+      limited.track("small_event");
+      limited.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "small_event",
+      ]);
+    });
+  });
+
+  describe("Typed Event Catalog", () => {
+    interface AppEvents {
+      signup_clicked: { plan: "free" | "pro"; source?: string };
+      search: { query?: string };
+      logged_out: undefined;
+    }
+
+    it("should track catalog events with checked properties", async () => {
+      const transport = new MemoryTransport();
+      const typed = createAnalytics<AppEvents>({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+      });
+
+      typed.track("signup_clicked", { plan: "pro" });
+      typed.track("search");
+      typed.track("logged_out");
+      await typed.trackWithFeed("signup_clicked", "feed-1", { plan: "free" });
+
+      // @ts-expect-error misspelled event name
+      typed.track("signup_clikced", { plan: "pro" });
+      // @ts-expect-error required properties are missing
+      typed.track("signup_clicked");
+      // @ts-expect-error plan is not in the catalog's union
+      typed.track("signup_clicked", { plan: "enterprise" });
+      // @ts-expect-error logged_out has no properties
+      typed.track("logged_out", { reason: "timeout" });
+      // @ts-expect-error required properties are missing
+      await typed.trackWithFeed("signup_clicked", "feed-1");
+
+      typed.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(
+        transport
+          .getEvents()
+          .slice(0, 4)
+          .map((e) => e.event_type)
+      ).toEqual(["signup_clicked", "search", "logged_out", "signup_clicked"]);
+    });
+
+    it("should accept any event without a catalog", () => {
+      analytics.track("anything_goes", { any: "property" });
+      expect(analytics).toBeDefined();
+    });
+  });
+
+  describe("Tracking Plan", () => {
+    let transport: MemoryTransport;
+
+    const trackingPlan = {
+      events: {
+        signup_clicked: {
+          properties: {
+            plan: { type: "string" as const, enum: ["free", "pro"] },
+          },
+          required: ["plan"],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      transport = new MemoryTransport();
+    });
+
+    const trackWithPlan = async (
+      schemaValidation?: "warn" | "drop" | "tag"
+    ) => {
+      const planned = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        trackingPlan,
+        schemaValidation,
+      });
+
+      planned.track("signup_clicked", { plan: "pro" });
+      planned.track("signup_clicked", { plan: "gold" });
+      planned.track("signup_clikced", { plan: "pro" });
+      await planned.page();
+      planned.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      return transport.getEvents();
+    };
+
+    it("should keep violating events in warn mode", async () => {
+      const events = await trackWithPlan();
+
+      expect(events.map((e) => e.event_type)).toEqual([
+        "signup_clicked",
+        "signup_clicked",
+        "signup_clikced",
+        "page_view",
+      ]);
+      expect(events[1].properties).not.toHaveProperty("schema_violations");
+    });
+
+    it("should drop violating events in drop mode", async () => {
+      const events = await trackWithPlan("drop");
 
-      expect(mockSendBeacon).toHaveBeenCalled();
+      expect(events.map((e) => e.event_type)).toEqual([
+        "signup_clicked",
+        "page_view",
+      ]);
     });
 
-    it("should respect event name override", () => {
-      analytics.track(
-        "event_type",
-        { data: "test" },
-        undefined,
-        "Custom Event Name"
-      );
+    it("should attach schema_violations in tag mode", async () => {
+      const events = await trackWithPlan("tag");
 
-      // Event should be queued with custom name
-      expect(analytics).toBeDefined();
+      expect(events[0].properties).not.toHaveProperty("schema_violations");
+      expect(events[1].properties.schema_violations).toEqual([
+        'properties.plan: must be one of "free", "pro"',
+      ]);
+      expect(events[2].properties.schema_violations).toEqual([
+        'event: "signup_clikced" is not in the tracking plan',
+      ]);
     });
+  });
 
-    it("should include write_key in event payload", () => {
-      analytics.track("test_event", { test: "data" });
-      // The write_key should be included in the payload
-      expect(analytics).toBeDefined();
+  describe("Automatic Pageviews", () => {
+    it("should track SPA navigations as page views", async () => {
+      const transport = new MemoryTransport();
+      const tracked = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        autoPageviews: true,
+      });
+
+      history.pushState({}, "", "/dashboard");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      history.pushState({}, "", "/dashboard");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      tracked.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const pageViews = transport.getEvents();
+      expect(pageViews.map((e) => e.event_type)).toEqual([
+        "page_view",
+        "page_view",
+      ]);
+      expect(pageViews[1].properties).toMatchObject({
+        path: "/dashboard",
+        previous_path: "/",
+        referrer: "http://localhost/",
+      });
     });
   });
 
-  describe("Batching", () => {
-    it("should batch multiple events", async () => {
-      mockSendBeacon.mockReturnValue(true);
+  describe("Autocapture", () => {
+    it("should track declared interactions", async () => {
+      document.body.innerHTML = `<button data-augur-event="cta_clicked" data-augur-prop-variant="b">Try it</button>`;
+      const transport = new MemoryTransport();
+      const capturing = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        autocapture: true,
+      });
 
-      analytics.track("event1");
-      analytics.track("event2");
+      document.querySelector("button")!.click();
+      capturing.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      const [event] = transport.getEvents();
+      expect(event.event_type).toBe("cta_clicked");
+      expect(event.properties).toMatchObject({
+        element_tag: "button",
+        element_text: "Try it",
+        variant: "b",
+      });
+      document.body.innerHTML = "";
+    });
+  });
 
-      expect(mockSendBeacon).toHaveBeenCalledTimes(1);
-      const callArgs = mockSendBeacon.mock.calls[0];
-      const blob = callArgs[1] as Blob;
+  describe("Performance Metrics", () => {
+    it("should tie metrics to the page view of the document load", async () => {
+      jest.useFakeTimers();
+      const getEntriesByType = performance.getEntriesByType;
+      performance.getEntriesByType = jest.fn((type: string) =>
+        type === "navigation"
+          ? [{ type: "navigate", responseStart: 120, loadEventEnd: 900 }]
+          : []
+      ) as any;
+      const transport = new MemoryTransport();
+      const measured = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        performance: { navigationTiming: false },
+      });
 
-      expect(blob).toBeInstanceOf(Blob);
+      measured.page({ path: "/pricing" });
+      // A client-side navigation before the metric is reported
+      measured.page({ path: "/checkout" });
+      jest.runOnlyPendingTimers();
+      jest.useRealTimers();
+      performance.getEntriesByType = getEntriesByType;
+      measured.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const [pageView, , ttfb] = transport.getEvents();
+      expect(pageView.properties.page_view_id).toMatch(/^pv-/);
+      expect(ttfb.event_type).toBe("metric");
+      expect(ttfb.properties).toMatchObject({
+        metric_name: "TTFB",
+        metric_value: 120,
+        metric_rating: "good",
+        page_view_id: pageView.properties.page_view_id,
+        page_path: "/pricing",
+      });
     });
+  });
 
-    it("should flush on timeout", async () => {
-      mockSendBeacon.mockReturnValue(true);
+  describe("Error Tracking", () => {
+    it("should track uncaught and captured errors with breadcrumbs", async () => {
+      const transport = new MemoryTransport();
+      const tracking = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com/api/v1",
+        batchSize: 10,
+        transport,
+        errorTracking: true,
+      });
 
-      analytics.track("single_event");
+      tracking.track("checkout_started");
+      window.dispatchEvent(
+        new ErrorEvent("error", { error: new TypeError("boom") })
+      );
+      tracking.captureError(new Error("payment declined"), {
+        order_id: "o-1",
+      });
+      tracking.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const [, uncaught, captured] = transport.getEvents();
+      expect(uncaught.event_type).toBe("error_occurred");
+      expect(uncaught.properties).toMatchObject({
+        error_type: "TypeError",
+        error_message: "boom",
+        error_source: "onerror",
+        handled: false,
+        breadcrumbs: [{ event_type: "checkout_started" }],
+      });
+      expect(uncaught.properties.error_stack).toContain("at ");
+      expect(captured.properties).toMatchObject({
+        error_message: "payment declined",
+        error_source: "manual",
+        handled: true,
+        order_id: "o-1",
+        breadcrumbs: [
+          { event_type: "checkout_started" },
+          { event_type: "error_occurred" },
+        ],
+      });
+    });
+  });
 
-      // Wait for timeout (1000ms + buffer)
-      await new Promise((resolve) => setTimeout(resolve, 1200));
+  describe("Network Capture", () => {
+    it("should track API calls but not its own batches", async () => {
+      const transport = new MemoryTransport();
+      const capturing = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com",
+        batchSize: 10,
+        transport,
+        networkCapture: { denyUrls: ["/health"] },
+      });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 201,
+        headers: new Headers(),
+      });
 
-      expect(mockSendBeacon).toHaveBeenCalled();
+      await window.fetch("https://api.example.com/orders/5", {
+        method: "POST",
+      });
+      await window.fetch("https://api.example.com/health");
+      await window.fetch("https://test.com/api/v1/analytics/events");
+      capturing.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const events = transport.getEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].event_type).toBe("http_request");
+      expect(events[0].properties).toMatchObject({
+        initiator: "fetch",
+        method: "POST",
+        url: "https://api.example.com/orders/5",
+        url_pattern: "/orders/:id",
+        status: 201,
+      });
+      mockFetch.mockReset();
     });
 
-    it("should manual flush", async () => {
-      mockSendBeacon.mockReturnValue(true);
+    it("should not capture batches a custom transport posts through a proxy", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+      });
+      const proxied = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com",
+        batchSize: 10,
+        transport: new FetchTransport({
+          fetch: (_url, init) =>
+            window.fetch("https://proxy.example.com/collect", init),
+        }),
+        networkCapture: true,
+      });
 
-      analytics.track("event1");
-      analytics.flushQueue();
+      proxied.track("first");
+      proxied.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      proxied.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      const sent = mockFetch.mock.calls.flatMap(([, init]) =>
+        JSON.parse(init.body)
+      );
+      expect(sent.map((event: any) => event.event_type)).toEqual(["first"]);
+      mockFetch.mockReset();
+    });
 
-      expect(mockSendBeacon).toHaveBeenCalled();
+    it("should not capture batches a transport sends after an await", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+      });
+      const getToken = () => Promise.resolve("token");
+      const authenticated = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com",
+        batchSize: 10,
+        transport: {
+          name: "authenticated",
+          async send(request) {
+            const token = await getToken();
+            const response = await window.fetch(request.url, {
+              method: "POST",
+              headers: { Authorization: `Bearer ${token}` },
+              body: request.body,
+            });
+            return { ok: response.ok, status: response.status };
+          },
+        },
+        networkCapture: true,
+      });
+
+      authenticated.track("first");
+      authenticated.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      authenticated.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const sent = mockFetch.mock.calls.flatMap(([, init]) =>
+        JSON.parse(init.body)
+      );
+      expect(sent.map((event: any) => event.event_type)).toEqual(["first"]);
+      mockFetch.mockReset();
     });
   });
 
-  describe("Retry Logic", () => {
-    it("should fallback to fetch when sendBeacon fails", async () => {
-      mockSendBeacon.mockReturnValue(false);
+  describe("Header Injection", () => {
+    const sentHeaders = () =>
+      new Headers(
+        mockFetch.mock.calls[mockFetch.mock.calls.length - 1][1]?.headers
+      );
+
+    beforeEach(() => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => ({ success: true }),
+        status: 200,
+        headers: new Headers(),
       });
+    });
 
-      analytics.track("event1");
-      analytics.track("event2");
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+    it("should only inject into the page origin and injectOrigins", async () => {
+      const injecting = createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com",
+        transport: new MemoryTransport(),
+        injectOrigins: ["https://api.example.com"],
+        traceHeaders: true,
+      });
 
-      expect(mockSendBeacon).toHaveBeenCalled();
-      expect(mockFetch).toHaveBeenCalled();
+      await window.fetch("https://api.example.com/orders");
+      const headers = sentHeaders();
+      expect(headers.get("X-Augur-Session-ID")).toBe(injecting.getSessionId());
+      expect(headers.get("traceparent")).toMatch(
+        /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/
+      );
+      expect(headers.get("baggage")).toBe(
+        `augur.session_id=${encodeURIComponent(injecting.getSessionId())}`
+      );
+
+      await window.fetch("/api/me");
+      expect(sentHeaders().get("X-Augur-Session-ID")).toBe(
+        injecting.getSessionId()
+      );
+
+      await window.fetch("https://cdn.thirdparty.com/lib.js");
+      expect(sentHeaders().has("X-Augur-Session-ID")).toBe(false);
+      expect(sentHeaders().has("traceparent")).toBe(false);
     });
 
-    it("should persist failed events to localStorage", async () => {
-      jest.useFakeTimers();
+    it("should not wrap fetch when injection is turned off", () => {
+      analytics.destroy();
+      const fetchBefore = window.fetch;
+      createAnalytics({
+        writeKey: "test-write-key",
+        endpoint: "https://test.com",
+        transport: new MemoryTransport(),
+        injectHeaders: false,
+      });
 
-      mockSendBeacon.mockReturnValue(false);
-      mockFetch.mockRejectedValue(new Error("Network error"));
+      expect(window.fetch).toBe(fetchBefore);
+    });
+  });
 
-      analytics.track("failed_event", { data: "test" });
-      analytics.flushQueue();
+  describe("Teardown", () => {
+    it("should flush, restore fetch and drop later events on destroy", async () => {
+      analytics.destroy();
+      const fetchBefore = window.fetch;
+      const transport = new MemoryTransport();
+      const instance = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://test.com",
+        transport,
+        networkCapture: {},
+      });
+      expect(window.fetch).not.toBe(fetchBefore);
+
+      instance.track("before_destroy");
+      instance.destroy();
+      instance.track("after_destroy");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(window.fetch).toBe(fetchBefore);
+      expect(instance.isDestroyed()).toBe(true);
+      const events = transport.getEvents().map((e) => e.event_type);
+      expect(events).toContain("before_destroy");
+      expect(events).not.toContain("after_destroy");
+    });
 
-      // Fast-forward through all retries (1s + 2s + 3s = 6s)
-      await jest.advanceTimersByTimeAsync(6500);
+    it("should not resend persisted events after destroy", async () => {
+      analytics.destroy();
+      const storage = new MemoryStorageAdapter();
+      const transport = new MemoryTransport({ ok: false, status: 500 });
+      const instance = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://test.com",
+        maxRetries: 0,
+        storage,
+        transport,
+      });
 
-      // Check if event was persisted
-      const stored = localStorage.getItem(
-        `augur_events_${analytics.getSessionId()}`
-      );
-      expect(stored).toBeTruthy();
+      instance.track("failed_earlier");
+      instance.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // The endpoint recovers just as the instance is torn down
+      transport.setResponse({ ok: true, status: 200 });
+      transport.clear();
+      instance.track("before_destroy");
+      instance.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "before_destroy",
+      ]);
+      expect((await storage.peek(10)).map((e) => e.event.event_type)).toEqual([
+        "failed_earlier",
+      ]);
+    });
 
-      if (stored) {
-        const events = JSON.parse(stored);
-        expect(events.length).toBeGreaterThan(0);
-      }
+    it("should keep one live instance per writeKey", () => {
+      const first = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://test.com",
+        transport: new MemoryTransport(),
+      });
+      const wrapped = window.fetch;
+      const second = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://test.com",
+        transport: new MemoryTransport(),
+      });
 
-      jest.useRealTimers();
+      expect(first.isDestroyed()).toBe(true);
+      expect(getAnalytics("test-key")).toBe(second);
+      expect(getAnalytics("test-write-key")).toBe(analytics);
+      expect(window.fetch).toBe(wrapped);
     });
   });
 
@@ -371,6 +1793,204 @@ describe("AugurAnalytics", () => {
     });
   });
 
+  describe("Anonymous ID", () => {
+    const create = (transport: MemoryTransport, config = {}) =>
+      createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://test.com",
+        batchSize: 1,
+        transport,
+        ...config,
+      });
+
+    it("should send a stored anonymous ID with every event", async () => {
+      const transport = new MemoryTransport();
+      const first = create(transport);
+      const anonymousId = first.getAnonymousId();
+      first.track("first_load");
+
+      // Same ID after a reload
+      const second = create(transport);
+      second.track("second_load");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(anonymousId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBe(anonymousId);
+      expect(second.getAnonymousId()).toBe(anonymousId);
+      expect(
+        transport.getEvents().map((e) => e.properties.anonymous_id)
+      ).toEqual([anonymousId, anonymousId]);
+    });
+
+    it("should carry the anonymous ID into identify and alias", async () => {
+      const transport = new MemoryTransport();
+      const instance = create(transport, { batchSize: 2 });
+      const anonymousId = instance.getAnonymousId();
+
+      await instance.alias("user-1");
+      await instance.identify("user-1");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const [aliased, identified] = transport.getEvents();
+      expect(aliased.properties).toMatchObject({
+        new_user_id: "user-1",
+        old_user_id: anonymousId,
+        anonymous_id: anonymousId,
+      });
+      expect(identified.properties).toMatchObject({
+        user_id: "user-1",
+        anonymous_id: anonymousId,
+      });
+    });
+
+    it("should rotate the anonymous ID on reset", async () => {
+      const instance = create(new MemoryTransport());
+      const anonymousId = instance.getAnonymousId();
+
+      await instance.reset();
+
+      expect(instance.getAnonymousId()).not.toBe(anonymousId);
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBe(
+        instance.getAnonymousId()
+      );
+    });
+
+    it("should keep the anonymous ID in memory until storage consent", () => {
+      localStorageMock.clear();
+      const instance = create(new MemoryTransport(), {
+        requireConsent: true,
+      });
+
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBeNull();
+      instance.setConsent({ storage: true });
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBe(
+        instance.getAnonymousId()
+      );
+
+      instance.setConsent({ storage: false });
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBeNull();
+    });
+
+    it("should continue the stored anonymous ID and session once storage consent is granted", async () => {
+      const transport = new MemoryTransport();
+      const first = create(transport);
+      const anonymousId = first.getAnonymousId();
+      const sessionId = first.getSessionId();
+
+      // Reload waiting for the consent banner
+      const second = create(transport, { batchSize: 10, requireConsent: true });
+      second.track("before_consent");
+      expect(second.getAnonymousId()).not.toBe(anonymousId);
+
+      second.setConsent({ analytics: true, storage: true });
+      second.flushQueue();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(second.getAnonymousId()).toBe(anonymousId);
+      expect(second.getSessionId()).toBe(sessionId);
+      expect(localStorageMock.getItem("augur_anonymous_id")).toBe(anonymousId);
+      expect(
+        JSON.parse(sessionStorageMock.getItem("augur_session_id")!).sessionId
+      ).toBe(sessionId);
+      expect(transport.getEvents()[0].properties).toMatchObject({
+        anonymous_id: anonymousId,
+        session_id: sessionId,
+      });
+    });
+  });
+
+  describe("User Persistence", () => {
+    const create = (transport: MemoryTransport, config = {}) =>
+      createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://test.com",
+        batchSize: 10,
+        transport,
+        ...config,
+      });
+
+    beforeEach(() => {
+      localStorageMock.clear();
+    });
+
+    it("should restore the user, traits and groups after a reload", async () => {
+      const first = create(new MemoryTransport());
+      await first.identify("user-1", { plan: "free" });
+      await first.setUserProperties({ plan: "pro", seats: 3 });
+      await first.group("org-1", { name: "Acme" });
+
+      const transport = new MemoryTransport();
+      const second = create(transport);
+      second.track("reloaded");
+      await second.flushQueue();
+
+      expect(second.getUserId()).toBe("user-1");
+      expect(second.getUserTraits()).toEqual({ plan: "pro", seats: 3 });
+      expect(transport.getEvents()[0].properties).toMatchObject({
+        user_id: "user-1",
+        user_traits: { plan: "pro", seats: 3 },
+        group_ids: ["org-1"],
+        group_traits: { "org-1": { name: "Acme" } },
+      });
+    });
+
+    it("should restore the user once storage consent is granted", async () => {
+      const first = create(new MemoryTransport());
+      await first.identify("user-1", { plan: "pro" });
+
+      // Reload waiting for the consent banner
+      const transport = new MemoryTransport();
+      const second = create(transport, { requireConsent: true });
+      second.track("before_consent");
+      expect(second.getUserId()).toBeUndefined();
+
+      second.setConsent({ analytics: true, storage: true });
+      await second.flushQueue();
+
+      expect(second.getUserId()).toBe("user-1");
+      expect(second.getUserTraits()).toEqual({ plan: "pro" });
+      expect(JSON.parse(localStorageMock.getItem("augur_user")!)).toMatchObject(
+        { userId: "user-1" }
+      );
+      expect(transport.getEvents()[0].properties.user_id).toBe("user-1");
+    });
+
+    it("should attach only a traits hash in hash mode", async () => {
+      const transport = new MemoryTransport();
+      const instance = create(transport, { identityContext: "hash" });
+      await instance.identify("user-1", { email: "a@example.com" });
+      await instance.flushQueue();
+
+      const properties = transport.getEvents()[0].properties;
+      expect(properties.traits_hash).toMatch(/^[0-9a-f]{8}$/);
+      expect(properties).not.toHaveProperty("user_traits");
+    });
+
+    it("should clear the stored user on reset", async () => {
+      const instance = create(new MemoryTransport());
+      await instance.identify("user-1", { plan: "pro" });
+      await instance.reset();
+
+      expect(instance.getUserId()).toBeUndefined();
+      expect(instance.getUserTraits()).toEqual({});
+      expect(localStorageMock.getItem("augur_user")).toBeNull();
+      expect(create(new MemoryTransport()).getUserId()).toBeUndefined();
+    });
+
+    it("should drop stored traits when another user is configured or identified", async () => {
+      const first = create(new MemoryTransport());
+      await first.identify("user-1", { plan: "pro" });
+
+      const configured = create(new MemoryTransport(), { userId: "user-2" });
+      expect(configured.getUserId()).toBe("user-2");
+      expect(configured.getUserTraits()).toEqual({});
+
+      await configured.identify("user-2", { plan: "free" });
+      await configured.identify("user-3");
+      expect(configured.getUserTraits()).toEqual({});
+    });
+  });
+
   describe("Metrics Tracking", () => {
     it("should track timing", async () => {
       mockSendBeacon.mockReturnValue(true);
@@ -396,6 +2016,49 @@ describe("AugurAnalytics", () => {
   });
 
   describe("Session Persistence", () => {
+    it("should create random session IDs without user details", () => {
+      const identified = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        userId: "jane.doe@example.com",
+        enableLocalStorage: false,
+      });
+
+      expect(identified.getSessionId()).toMatch(
+        /^sess-[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+      expect(identified.getSessionId()).not.toContain("jane");
+    });
+
+    it("should create session IDs with idGenerator", async () => {
+      let next = 0;
+      sessionStorageMock.clear();
+      const instance = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        idGenerator: () => `custom-${++next}`,
+      });
+
+      expect(instance.getSessionId()).toBe("custom-1");
+      await instance.reset();
+      expect(instance.getSessionId()).toBe("custom-2");
+    });
+
+    it("should keep sessions stored by earlier versions", () => {
+      const legacy = "sess-jane.doe-1696180800000-a7x2k9m1p";
+      sessionStorageMock.setItem(
+        "augur_session_id",
+        JSON.stringify({ sessionId: legacy, timestamp: Date.now() })
+      );
+
+      const instance = createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+      });
+
+      expect(instance.getSessionId()).toBe(legacy);
+    });
+
     it("should persist session to sessionStorage", () => {
       const analytics1 = createAnalytics({
         writeKey: "test-key",
@@ -488,4 +2151,218 @@ describe("AugurAnalytics", () => {
       expect(timestampAfter).toBeGreaterThanOrEqual(timestampBefore);
     });
   });
+
+  describe("Session Lifecycle", () => {
+    const create = (transport: MemoryTransport, config = {}) =>
+      createAnalytics({
+        writeKey: "test-key",
+        endpoint: "https://api.example.com",
+        batchSize: 10,
+        transport,
+        ...config,
+      });
+
+    beforeEach(() => {
+      sessionStorageMock.clear();
+    });
+
+    afterEach(() => {
+      window.history.replaceState({}, "", "/");
+    });
+
+    it("should announce new sessions with entry page and campaign", async () => {
+      window.history.replaceState({}, "", "/landing?utm_source=newsletter");
+      const transport = new MemoryTransport();
+      const instance = create(transport);
+      instance.track("first");
+      instance.track("second");
+      await instance.flushQueue();
+
+      const events = transport.getEvents();
+      expect(events.map((e) => e.event_type)).toEqual([
+        "session_started",
+        "first",
+        "second",
+      ]);
+      expect(events[0].properties).toMatchObject({
+        reason: "new",
+        entry_page: "/landing",
+        utm_source: "newsletter",
+      });
+      expect(events.map((e) => e.properties.session_sequence)).toEqual([
+        1, 2, 3,
+      ]);
+      expect(events[2].properties.session_started_at).toBe(
+        new Date(instance.getSession().startedAt).toISOString()
+      );
+    });
+
+    it("should continue the sequence after a reload", async () => {
+      create(new MemoryTransport()).track("before_reload");
+
+      const transport = new MemoryTransport();
+      const reloaded = create(transport);
+      reloaded.track("after_reload");
+      await reloaded.flushQueue();
+
+      expect(transport.getEvents()).toEqual([
+        expect.objectContaining({
+          event_type: "after_reload",
+          properties: expect.objectContaining({ session_sequence: 3 }),
+        }),
+      ]);
+      expect(reloaded.getSession().entryPage).toBe("/");
+    });
+
+    it("should end an expired session found at load", async () => {
+      const expired = create(new MemoryTransport());
+      expired.track("old_activity");
+      const stored = JSON.parse(
+        sessionStorageMock.getItem("augur_session_id")!
+      );
+      stored.timestamp = Date.now() - 31 * 60 * 1000;
+      sessionStorageMock.setItem("augur_session_id", JSON.stringify(stored));
+
+      const transport = new MemoryTransport();
+      const instance = create(transport);
+      await instance.flushQueue();
+
+      const [ended, started] = transport.getEvents();
+      expect(ended).toMatchObject({
+        event_type: "session_ended",
+        session_id: expired.getSessionId(),
+        properties: { reason: "timeout", event_count: 2 },
+      });
+      expect(started).toMatchObject({
+        event_type: "session_started",
+        session_id: instance.getSessionId(),
+        properties: {
+          reason: "timeout",
+          previous_session_id: expired.getSessionId(),
+        },
+      });
+    });
+
+    it("should end the session under the previous user on reset", async () => {
+      const transport = new MemoryTransport();
+      const instance = create(transport);
+      const listener = jest.fn();
+      instance.onSessionChange(listener);
+      await instance.identify("user-1");
+      const previousSessionId = instance.getSessionId();
+
+      await instance.reset();
+      await instance.flushQueue();
+
+      const ended = transport
+        .getEvents()
+        .find((e) => e.event_type === "session_ended");
+      expect(ended).toMatchObject({
+        session_id: previousSessionId,
+        properties: { reason: "reset", user_id: "user-1" },
+      });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: instance.getSessionId(),
+          sequence: 1,
+        }),
+        "reset"
+      );
+    });
+
+    describe("Expiry while the page is open", () => {
+      const minute = 60 * 1000;
+
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date(2026, 0, 15, 12, 0) });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+        Object.defineProperty(document, "visibilityState", {
+          configurable: true,
+          value: "visible",
+        });
+      });
+
+      it("should roll over an idle session on the next event", async () => {
+        const transport = new MemoryTransport();
+        const instance = create(transport);
+        const firstSessionId = instance.getSessionId();
+        instance.track("before_idle");
+
+        jest.setSystemTime(Date.now() + 31 * minute);
+        instance.track("after_idle");
+        await instance.flushQueue();
+
+        const events = transport.getEvents();
+        expect(events.map((e) => e.event_type)).toEqual([
+          "session_started",
+          "before_idle",
+          "session_ended",
+          "session_started",
+          "after_idle",
+        ]);
+        expect(events[2]).toMatchObject({
+          session_id: firstSessionId,
+          properties: { reason: "timeout", event_count: 2 },
+        });
+        expect(events[4].session_id).toBe(instance.getSessionId());
+        expect(events[4].properties.session_sequence).toBe(2);
+        expect(instance.getSessionId()).not.toBe(firstSessionId);
+      });
+
+      it("should check for expiry when the page becomes visible", () => {
+        const instance = create(new MemoryTransport());
+        const listener = jest.fn();
+        instance.onSessionChange(listener);
+
+        jest.setSystemTime(Date.now() + 45 * minute);
+        Object.defineProperty(document, "visibilityState", {
+          configurable: true,
+          value: "visible",
+        });
+        document.dispatchEvent(new Event("visibilitychange"));
+
+        expect(listener).toHaveBeenCalledWith(
+          expect.objectContaining({ sessionId: instance.getSessionId() }),
+          "timeout"
+        );
+      });
+
+      it("should end sessions at maxSessionLength and at midnight", async () => {
+        jest.setSystemTime(new Date(2026, 0, 15, 23, 0));
+        const transport = new MemoryTransport();
+        const instance = create(transport, {
+          maxSessionLength: 45 * minute,
+          midnightRollover: true,
+        });
+
+        // Never idle: events at 23:00, 23:20, 23:40, 23:50 and 00:05
+        for (const at of [0, 20, 40, 50, 65]) {
+          jest.setSystemTime(new Date(2026, 0, 15, 23, at));
+          instance.track("active");
+        }
+        await instance.flushQueue();
+
+        expect(
+          transport
+            .getEvents()
+            .filter((e) => e.event_type === "session_ended")
+            .map((e) => e.properties.reason)
+        ).toEqual(["max_length", "midnight"]);
+      });
+    });
+
+    it("should skip lifecycle events when sessionEvents is off", async () => {
+      const transport = new MemoryTransport();
+      const instance = create(transport, { sessionEvents: false });
+      await instance.reset();
+      await instance.flushQueue();
+
+      expect(transport.getEvents().map((e) => e.event_type)).toEqual([
+        "user_reset",
+      ]);
+    });
+  });
 });
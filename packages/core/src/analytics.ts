@@ -3,6 +3,100 @@
  * Lightweight analytics library for session tracking and correlation
  */
 
+import {
+  Autocapture,
+  type AutocaptureOptions,
+  type CapturedInteraction,
+} from "./autocapture";
+import {
+  DEFAULT_MAX_BATCH_BYTES,
+  MAX_BEACON_BYTES,
+  fitsInBatch,
+  splitBatches,
+  truncateEvent,
+  type OversizedEventMode,
+} from "./batching";
+import {
+  encodeBatch,
+  gzip,
+  isCompressionSupported,
+  type BatchFormat,
+} from "./compression";
+import {
+  ErrorTracker,
+  type ErrorSource,
+  type ErrorTrackingOptions,
+} from "./errors";
+import {
+  ANONYMOUS_ID_KEY,
+  USER_KEY,
+  IdentityStore,
+  hashTraits,
+  randomUuid,
+  type IdentityContext,
+  type IdentityStorage,
+} from "./identity";
+import type {
+  EventCatalog,
+  EventName,
+  EventProperties,
+  TrackArgs,
+  TrackWithFeedArgs,
+  UntypedEvents,
+} from "./events";
+import { ConsentManager, type ConsentPreferences } from "./consent";
+import {
+  detectTcfApi,
+  readGlobalPrivacyControl,
+  watchTcfConsent,
+  type PrivacySignalOptions,
+  type TcfOptions,
+} from "./privacy";
+import {
+  NetworkInstrumentation,
+  sendUncaptured,
+  matchesOrigin,
+  type NetworkCaptureOptions,
+  type UrlRule,
+} from "./network";
+import { PageviewTracker, type AutoPageviewOptions } from "./pageviews";
+import {
+  PerformanceMonitor,
+  type PerformanceMetric,
+  type PerformanceOptions,
+} from "./performance";
+import { PluginPipeline, type AugurPlugin } from "./plugins";
+import { DeliveryError, computeBackoff, isRetryableError } from "./retry";
+import {
+  createSession,
+  parseSession,
+  serializeSession,
+  sessionExpiry,
+  type SessionChangeListener,
+  type SessionEndReason,
+  type SessionInfo,
+  type SessionStartReason,
+} from "./session";
+import {
+  LocalStorageAdapter,
+  estimateBytes,
+  type StorageAdapter,
+} from "./storage";
+import { TabCoordinator, type TabMessage } from "./tabs";
+import { traceHeaders, type TraceHeaderOptions } from "./tracing";
+import {
+  createDeliveryTransports,
+  type DeliveryMode,
+  type Transport,
+} from "./transport";
+import {
+  compileTrackingPlan,
+  formatViolations,
+  validateEvent,
+  type SchemaValidationMode,
+  type TrackingPlan,
+} from "./validation";
+
 export interface AugurConfig {
   writeKey: string;
   endpoint: string;
@@ -12,9 +106,41 @@ export interface AugurConfig {
   feedId?: string; // Analytics feed ID (UUID format)
   batchSize?: number; // Number of events to batch before sending (default: 10)
   batchTimeout?: number; // Time in ms to wait before sending batch (default: 5000)
+  maxBatchBytes?: number; // Max serialized size of one request, keep under the 64KB beacon limit (default: 61440)
+  oversizedEvents?: OversizedEventMode; // Events larger than maxBatchBytes are "truncate"d or "drop"ped (default: "truncate")
   maxRetries?: number; // Max retry attempts for failed requests (default: 3)
+  retryBaseDelay?: number; // Base delay in ms for exponential retry backoff (default: 500)
+  retryMaxDelay?: number; // Longest delay in ms between retries (default: 30000)
   enableLocalStorage?: boolean; // Persist failed events to localStorage (default: true)
   sessionTimeout?: number; // Session timeout in ms (default: 30 minutes)
+  maxSessionLength?: number; // End sessions after this many ms, however active (default: no limit)
+  midnightRollover?: boolean; // End sessions at local midnight, like Google Analytics (default: false)
+  idGenerator?: () => string; // Creates new session IDs (default: "sess-" and a random UUID)
+  sessionEvents?: boolean; // Track session_started and session_ended (default: true)
+  transport?: Transport; // Delivery transport (default: depends on deliveryMode)
+  unloadTransport?: Transport; // Transport used while the page unloads (default: depends on deliveryMode)
+  deliveryMode?: DeliveryMode; // "acknowledged" checks every response and keeps beacon for page unload (default: "beacon")
+  compression?: boolean; // Gzip batches with CompressionStream where available (default: false)
+  batchFormat?: BatchFormat; // "envelope" hoists shared write_key, session_id, device_info and source (default: "array")
+  plugins?: AugurPlugin[]; // Plugins registered in order at construction
+  requireConsent?: boolean; // Hold events and skip storage/device info until consent is granted (default: true with a TCF v2 CMP, otherwise false)
+  consent?: ConsentPreferences; // Initial consent state, e.g. restored from your CMP
+  privacySignals?: PrivacySignalOptions | false; // Follow TCF v2 CMP and Global Privacy Control (default: both on)
+  crossTab?: boolean; // Share one session across tabs, only the leader tab drains persisted events (default: false)
+  storage?: StorageAdapter; // Offline queue for undelivered events (default: localStorage, 100 events)
+  identityStorage?: IdentityStorage; // Keep the anonymous ID in "localStorage" or a first-party "cookie" (default: "localStorage")
+  cookieDomain?: string; // Cookie domain for identityStorage "cookie", e.g. ".example.com"
+  identityContext?: IdentityContext; // Attach persisted user and group traits to every event, or only their "hash" (default: "traits")
+  autoPageviews?: boolean | AutoPageviewOptions; // Track page_view on load and on pushState/replaceState/popstate navigations (default: false)
+  autocapture?: boolean | AutocaptureOptions; // Track clicks, submits and changes on elements with data-augur-event (default: false)
+  performance?: boolean | PerformanceOptions; // Report Core Web Vitals and navigation timing as metric events (default: false)
+  errorTracking?: boolean | ErrorTrackingOptions; // Track uncaught errors and unhandled rejections as error_occurred (default: false)
+  injectHeaders?: boolean; // Add X-Augur-Session-ID to fetch and XHR requests to the page origin and injectOrigins (default: true)
+  injectOrigins?: UrlRule[]; // Other origins that receive injected headers, e.g. "https://api.example.com", or "*" for all
+  traceHeaders?: boolean | TraceHeaderOptions; // Also inject W3C traceparent and baggage (default: false)
+  networkCapture?: boolean | NetworkCaptureOptions; // Track fetch and XHR calls as http_request events (default: false)
+  trackingPlan?: TrackingPlan; // Validate track() event names and properties at runtime
+  schemaValidation?: SchemaValidationMode; // On violations: "warn" (debug log), "drop" or "tag" with schema_violations (default: "warn")
 }
 
 export interface AugurEvent {
@@ -29,6 +155,9 @@ export interface AugurPageEvent {
   path?: string;
   url?: string;
   title?: string;
+  referrer?: string;
+  previous_path?: string; // Path of the previous page in a single-page app
+  route_params?: Record<string, string | string[] | undefined>; // Dynamic segments when path is a route pattern
   properties?: Record<string, any>;
 }
 
@@ -37,6 +166,20 @@ export interface AugurIdentifyEvent {
   traits?: Record<string, any>;
 }
 
+export interface DeliveryInfo {
+  transport: string; // Name of the transport that sent the batch
+  status: number; // HTTP status, 0 when the transport cannot observe one
+  acknowledged: boolean; // false when the browser only queued the request (beacon)
+}
+
+export interface DeliveryFailure {
+  error: unknown;
+  persisted: boolean; // Saved to offline storage and retried later
+}
+
+export type DeliveredListener = (event: any, info: DeliveryInfo) => void;
+export type FailedListener = (event: any, failure: DeliveryFailure) => void;
+
 export interface DeviceInfo {
   browser: {
     name: string;
@@ -63,9 +206,27 @@ export interface DeviceInfo {
   userAgent: string;
 }
 
-export class AugurAnalytics {
-  private sessionId: string;
+// Live instances by writeKey
+const instances = new Map<string, AugurAnalytics<any>>();
+
+/**
+ * Only one instance per writeKey is live: creating another destroys the
+ * previous one, so fetch wrappers and listeners never stack
+ */
+export class AugurAnalytics<
+  TEvents extends EventCatalog<TEvents> = UntypedEvents
+> {
+  private session: SessionInfo;
+  private sessionFromConfig: boolean;
+  private sessionAnnounced: boolean = true;
+  private sessionListeners: SessionChangeListener[] = [];
+  private sessionEvents: boolean;
   private userId?: string;
+  private anonymousId: string;
+  private userTraits: Record<string, any> = {};
+  private groups: Record<string, Record<string, any>> = {};
+  private identity: IdentityStore;
+  private identityContext: IdentityContext;
   private writeKey: string;
   private endpoint: string;
   private debug: boolean;
@@ -75,14 +236,77 @@ export class AugurAnalytics {
   private batchTimeout: number;
   private batchTimer?: ReturnType<typeof setTimeout>;
   private maxRetries: number;
+  private retryBaseDelay: number;
+  private retryMaxDelay: number;
+  private drainTimer?: ReturnType<typeof setTimeout>;
+  private hasPersistedEvents: boolean = true; // Unknown until the first drain
   private enableLocalStorage: boolean;
   private sessionTimeout: number;
+  private maxSessionLength?: number;
+  private midnightRollover: boolean;
+  private checkingSession: boolean = false;
+  private idGenerator?: () => string;
+  private transport: Transport;
+  private compression: boolean;
+  private maxBatchBytes: number;
+  private trackingPlan?: TrackingPlan;
+  private pageviews?: PageviewTracker;
+  private autocapture?: Autocapture;
+  private performanceMonitor?: PerformanceMonitor;
+  private errors: ErrorTracker;
+  private pageViewId?: string;
+  private pagePath?: string;
+  // Document load the performance metrics belong to, whatever route is
+  // current when they are finalized
+  private loadPageView?: { pageViewId?: string; path: string };
+  private schemaValidation: SchemaValidationMode;
+  private oversizedEvents: OversizedEventMode;
+  private batchFormat: BatchFormat;
+  private unloadTransport: Transport;
+  private deliveredListeners: DeliveredListener[] = [];
+  private failedListeners: FailedListener[] = [];
+  private plugins: PluginPipeline;
+  private consent: ConsentManager;
+  private globalPrivacyControl: boolean = false;
+  private tabs?: TabCoordinator;
+  private storage: StorageAdapter;
+  private isDraining: boolean = false;
   private isSending: boolean = false;
   private unloadListenersAdded: boolean = false;
+  private destroyed: boolean = false;
+  private stopTcf?: () => void;
+  private handlePageHide = () => {
+    this.log("pagehide event - flushing queue");
+    this.flush(true);
+  };
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      this.log("visibilitychange (hidden) - flushing queue");
+      this.flush(true);
+    } else if (document.visibilityState === "visible") {
+      this.checkSession();
+    }
+  };
+  private handleOnline = () => {
+    this.log("online event - resending persisted and queued events");
+    this.sendPersistedEvents();
+    this.flushQueue();
+  };
+  private handleOffline = () => {
+    this.log("offline event - pausing delivery");
+  };
+  private network?: NetworkInstrumentation;
+  private networkCapture?: NetworkCaptureOptions;
+  private injectHeaders: boolean;
+  private injectOrigins: UrlRule[];
+  private traceHeaders?: TraceHeaderOptions;
   private readonly SESSION_STORAGE_KEY = "augur_session";
   private readonly SESSION_ID_KEY = "augur_session_id";
 
   constructor(config: AugurConfig) {
+    instances.get(config.writeKey)?.destroy();
+    instances.set(config.writeKey, this);
+
     this.writeKey = config.writeKey;
     this.endpoint = config.endpoint;
     this.userId = config.userId;
@@ -90,120 +314,691 @@ export class AugurAnalytics {
     this.feedId = config.feedId;
     this.batchSize = config.batchSize || 10;
     this.batchTimeout = config.batchTimeout || 5000;
-    this.maxRetries = config.maxRetries || 3;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryBaseDelay = config.retryBaseDelay || 500;
+    this.retryMaxDelay = config.retryMaxDelay || 30000;
     this.enableLocalStorage = config.enableLocalStorage !== false;
     this.sessionTimeout = config.sessionTimeout || 30 * 60 * 1000; // Default: 30 minutes
+    this.maxSessionLength = config.maxSessionLength;
+    this.midnightRollover = config.midnightRollover || false;
+    this.idGenerator = config.idGenerator;
+    this.sessionEvents = config.sessionEvents !== false;
+    const transports = createDeliveryTransports(
+      config.deliveryMode || "beacon"
+    );
+    this.transport = config.transport || transports.transport;
+    this.unloadTransport =
+      config.unloadTransport || config.transport || transports.unloadTransport;
+    this.compression = config.compression || false;
+    this.maxBatchBytes = config.maxBatchBytes || DEFAULT_MAX_BATCH_BYTES;
+    this.oversizedEvents = config.oversizedEvents || "truncate";
+    this.trackingPlan = config.trackingPlan;
+    if (this.trackingPlan) {
+      const planErrors = compileTrackingPlan(this.trackingPlan);
+      if (planErrors.length > 0) {
+        this.log(
+          "Tracking plan has errors, skipping those checks",
+          formatViolations(planErrors)
+        );
+      }
+    }
+    this.injectHeaders = config.injectHeaders !== false;
+    this.injectOrigins = config.injectOrigins || [];
+    this.traceHeaders =
+      config.traceHeaders === true ? {} : config.traceHeaders || undefined;
+    this.networkCapture =
+      config.networkCapture === true ? {} : config.networkCapture || undefined;
+    this.schemaValidation = config.schemaValidation || "warn";
+    this.batchFormat = config.batchFormat || "array";
+    this.storage = config.storage || new LocalStorageAdapter();
+    this.plugins = new PluginPipeline((message, data) =>
+      this.log(message, data)
+    );
+
+    // With a CMP on the page, wait for the user's choice before tracking,
+    // storing or reading the device, unless requireConsent says otherwise
+    const privacySignals = config.privacySignals || {};
+    const followTcf =
+      config.privacySignals !== false && privacySignals.tcf !== false;
+    this.consent = new ConsentManager(
+      config.requireConsent ?? (followTcf && detectTcfApi()),
+      config.consent
+    );
+
+    // GPC is known synchronously, apply it before any storage is touched
+    if (config.privacySignals !== false && privacySignals.gpc !== false) {
+      this.globalPrivacyControl = readGlobalPrivacyControl();
+      if (this.globalPrivacyControl) {
+        this.consent.update({
+          analytics: false,
+          storage: false,
+          deviceInfo: false,
+        });
+      }
+    }
+
+    // Before identity and session are read, so a CMP answering right away
+    // decides whether the stored ones may be used
+    if (followTcf) {
+      this.setupTcf(
+        typeof privacySignals.tcf === "object" ? privacySignals.tcf : {}
+      );
+    }
+
+    this.identity = new IdentityStore({
+      storage: config.identityStorage,
+      cookieDomain: config.cookieDomain,
+    });
+    // Storage denied from the start (e.g. by GPC) never notifies the consent
+    // listener, so remove what earlier visits stored here
+    if (this.consent.isDenied("storage")) {
+      this.clearStoredData();
+    }
+    this.anonymousId = this.getOrCreateAnonymousId();
+    this.identityContext = config.identityContext || "traits";
+    this.restoreUser();
+
+    // Always created, so captureError() and breadcrumbs work without
+    // the global listeners
+    this.errors = new ErrorTracker(
+      typeof config.errorTracking === "object" ? config.errorTracking : {},
+      (report, properties) =>
+        this.trackEvent("error_occurred", { ...properties, ...report })
+    );
+
+    this.consent.subscribe((current, previous) =>
+      this.handleConsentChange(current, previous)
+    );
+
+    if (config.crossTab) {
+      this.tabs = new TabCoordinator({
+        log: (message, data) => this.log(message, data),
+      });
+      this.tabs.onMessage((message) => this.handleTabMessage(message));
+      this.tabs.onBecomeLeader(() => this.sendPersistedEvents());
+    }
 
     // Get or create session ID with persistence
-    this.sessionId = config.sessionId || this.getOrCreateSession();
+    this.sessionFromConfig = !!config.sessionId;
+    this.session = config.sessionId
+      ? createSession(config.sessionId)
+      : this.getOrCreateSession();
 
     this.log("Augur Analytics initialized", {
-      sessionId: this.sessionId,
+      sessionId: this.session.sessionId,
       feedId: this.feedId,
       batchSize: this.batchSize,
       batchTimeout: this.batchTimeout,
       sessionTimeout: this.sessionTimeout,
+      transport: this.transport.name,
+      unloadTransport: this.unloadTransport.name,
+      storage: this.storage.name,
+      consent: this.consent.get(),
     });
 
-    this.setupAutoInjection();
+    for (const plugin of config.plugins || []) {
+      this.use(plugin);
+    }
+
+    // Once plugins see events: announce a new session, or end an expired
+    // one restored from storage
+    this.checkSession();
+
+    if (this.canUseStorage()) {
+      this.tabs?.start();
+    }
+
+    if (this.consent.isGranted("analytics")) {
+      this.setupAutoInjection();
+    }
+    if (config.errorTracking) {
+      this.errors.start();
+    }
+
+    // Before the unload handlers, so metrics reported when the page is
+    // hidden are queued ahead of the final flush
+    if (config.performance) {
+      this.loadPageView = { path: window.location.pathname };
+      this.performanceMonitor = new PerformanceMonitor(
+        config.performance === true ? {} : config.performance,
+        (metric) => this.reportPerformance(metric)
+      );
+      this.performanceMonitor.start();
+    }
+
     this.setupUnloadHandlers();
+    this.setupNetworkHandlers();
     this.sendPersistedEvents();
+
+    if (config.autoPageviews) {
+      this.pageviews = new PageviewTracker(
+        config.autoPageviews === true ? {} : config.autoPageviews,
+        (details) => {
+          this.log("Navigation detected", details);
+          this.page(details);
+        }
+      );
+      this.pageviews.start();
+    }
+
+    if (config.autocapture) {
+      this.autocapture = new Autocapture(
+        config.autocapture === true ? {} : config.autocapture,
+        (capture) => this.captureInteraction(capture)
+      );
+      this.autocapture.start();
+    }
   }
 
   /**
-   * Generate a unique session ID
+   * Read the stored anonymous ID, or create one (kept in memory only
+   * until storage consent is granted)
    */
-  private generateSessionId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substr(2, 9);
-    const userId = this.userId ? this.userId.split("@")[0] : "anonymous";
-    return `sess-${userId}-${timestamp}-${random}`;
+  private getOrCreateAnonymousId(): string {
+    const stored = this.canUseStorage()
+      ? this.identity.get(ANONYMOUS_ID_KEY)
+      : null;
+    if (stored) {
+      return stored;
+    }
+
+    const anonymousId = randomUuid();
+    this.storeAnonymousId(anonymousId);
+    return anonymousId;
   }
 
   /**
-   * Get or create a session with persistence
-   * Implements industry-standard 30-minute timeout behavior
+   * When storage consent arrives after this page load started with IDs kept
+   * in memory, continue with the anonymous ID and unexpired session earlier
+   * page loads stored instead of overwriting them. Events still queued are
+   * moved over.
    */
-  private getOrCreateSession(): string {
+  private adoptStoredIdentity(): void {
+    if (!this.canUseStorage()) {
+      return;
+    }
+
+    const previousAnonymousId = this.anonymousId;
+    this.anonymousId = this.identity.get(ANONYMOUS_ID_KEY) || this.anonymousId;
+
+    const previousSession = this.session;
+    let stored: SessionInfo | null = null;
+    try {
+      stored = parseSession(
+        this.getSessionStore()?.getItem(this.SESSION_ID_KEY) ?? null
+      );
+    } catch {
+      // Storage blocked, keep the session of this page load
+    }
     if (
-      !this.enableLocalStorage ||
-      typeof window === "undefined" ||
-      !window.sessionStorage
+      stored &&
+      !this.sessionFromConfig &&
+      stored.sessionId !== previousSession.sessionId &&
+      !this.getSessionExpiry(stored)
     ) {
-      return this.generateSessionId();
+      stored.lastActivityAt = Date.now();
+      this.session = stored;
+      this.sessionAnnounced = true;
+      // The stored session was announced by the page load that started it
+      this.eventQueue = this.eventQueue.filter(
+        (event) =>
+          event.event_type !== "session_started" ||
+          event.session_id !== previousSession.sessionId
+      );
     }
 
-    try {
-      const stored = sessionStorage.getItem(this.SESSION_ID_KEY);
-
-      if (stored) {
-        const { sessionId, timestamp } = JSON.parse(stored);
-        const now = Date.now();
-        const elapsed = now - timestamp;
-
-        // Check if session is still valid (within timeout window)
-        if (elapsed < this.sessionTimeout) {
-          this.log("Reusing existing session", {
-            sessionId,
-            ageMinutes: Math.round(elapsed / 60000),
-          });
-          // Update timestamp to extend session
-          this.updateSessionTimestamp(sessionId);
+    for (const event of this.eventQueue) {
+      const properties = event.properties || {};
+      if (properties.anonymous_id === previousAnonymousId) {
+        properties.anonymous_id = this.anonymousId;
+      }
+      if (
+        this.session !== previousSession &&
+        event.session_id === previousSession.sessionId
+      ) {
+        this.session.sequence++;
+        event.session_id = this.session.sessionId;
+        properties.session_id = this.session.sessionId;
+        properties.session_sequence = this.session.sequence;
+        properties.session_started_at = new Date(
+          this.session.startedAt
+        ).toISOString();
+      }
+    }
+
+    this.log("Restored stored identity", {
+      anonymousId: this.anonymousId,
+      sessionId: this.session.sessionId,
+    });
+  }
+
+  private storeAnonymousId(anonymousId: string = this.anonymousId): void {
+    if (this.canUseStorage() && typeof window !== "undefined") {
+      this.identity.set(ANONYMOUS_ID_KEY, anonymousId);
+    }
+  }
+
+  /**
+   * Restore the identified user, traits and groups from an earlier page
+   * load, at startup or once storage consent is granted. A different
+   * config.userId or identify() call means another user logged in, so the
+   * stored traits are not theirs.
+   */
+  private restoreUser(): void {
+    const stored = this.canUseStorage() ? this.identity.loadUser() : null;
+    if (!stored || (this.userId && stored.userId !== this.userId)) {
+      this.storeUser();
+      return;
+    }
+
+    this.userId = stored.userId;
+    // Traits set while storage consent was pending win over stored ones
+    this.userTraits = { ...stored.traits, ...this.userTraits };
+    this.groups = { ...stored.groups, ...this.groups };
+    for (const event of this.eventQueue) {
+      if (event.properties && event.properties.user_id === undefined) {
+        event.properties.user_id = this.userId;
+      }
+    }
+    this.storeUser();
+    this.log("Restored user", { userId: this.userId });
+  }
+
+  private storeUser(): void {
+    if (!this.canUseStorage() || typeof window === "undefined") {
+      return;
+    }
+    const anonymous =
+      !this.userId &&
+      Object.keys(this.userTraits).length === 0 &&
+      Object.keys(this.groups).length === 0;
+    if (anonymous) {
+      this.identity.remove(USER_KEY);
+    } else {
+      this.identity.saveUser({
+        userId: this.userId,
+        traits: this.userTraits,
+        groups: this.groups,
+      });
+    }
+  }
+
+  /**
+   * Persisted user and group context added to every event
+   */
+  private getUserContext(): Record<string, any> {
+    const context: Record<string, any> = {};
+    const groupIds = Object.keys(this.groups);
+    if (groupIds.length > 0) {
+      context.group_ids = groupIds;
+    }
+
+    const hasTraits =
+      Object.keys(this.userTraits).length > 0 ||
+      groupIds.some((id) => Object.keys(this.groups[id]).length > 0);
+    if (!hasTraits) {
+      return context;
+    }
+    if (this.identityContext === "hash") {
+      context.traits_hash = hashTraits({
+        user: this.userTraits,
+        groups: this.groups,
+      });
+    } else {
+      context.user_traits = this.userTraits;
+      context.group_traits = this.groups;
+    }
+    return context;
+  }
+
+  /**
+   * Generate a unique session ID. Session IDs are sent to other origins
+   * in headers, so they are random and never derived from the user.
+   */
+  private generateSessionId(): string {
+    if (this.idGenerator) {
+      try {
+        const sessionId = this.idGenerator();
+        if (typeof sessionId === "string" && sessionId) {
           return sessionId;
-        } else {
-          this.log("Session expired", {
-            sessionId,
-            ageMinutes: Math.round(elapsed / 60000),
+        }
+        this.log("idGenerator returned no ID, using a random session ID");
+      } catch (error) {
+        this.log("idGenerator failed, using a random session ID", error);
+      }
+    }
+    return `sess-${randomUuid()}`;
+  }
+
+  /**
+   * Restore the stored session or create one. An expired session stays
+   * current until checkSession() ends it, so session_ended carries its ID.
+   */
+  private getOrCreateSession(): SessionInfo {
+    const store = this.getSessionStore();
+    if (this.canUseStorage() && store) {
+      try {
+        // Sessions created by earlier versions (sess-<user>-<time>-<random>)
+        // stay valid until they expire, new ones use the current format
+        const stored = parseSession(store.getItem(this.SESSION_ID_KEY));
+        if (stored) {
+          const expired = this.getSessionExpiry(stored);
+          this.log(expired ? "Session expired" : "Reusing existing session", {
+            sessionId: stored.sessionId,
+            reason: expired,
+            ageMinutes: Math.round(
+              (Date.now() - stored.lastActivityAt) / 60000
+            ),
           });
+          if (!expired) {
+            // A page load extends the session
+            stored.lastActivityAt = Date.now();
+            this.session = stored;
+            this.storeSession();
+          }
+          return stored;
         }
+      } catch (error) {
+        this.log(
+          "Error accessing session storage, generating new session",
+          error
+        );
       }
+    }
 
-      // Create new session
-      const newSessionId = this.generateSessionId();
-      this.updateSessionTimestamp(newSessionId);
-      this.log("Created new session", { sessionId: newSessionId });
-      return newSessionId;
-    } catch (error) {
-      this.log(
-        "Error accessing session storage, generating new session",
-        error
-      );
-      return this.generateSessionId();
+    const session = createSession(this.generateSessionId());
+    this.session = session;
+    this.sessionAnnounced = false;
+    this.storeSession();
+    this.tabs?.broadcast({
+      type: "session",
+      sessionId: session.sessionId,
+      reason: "new",
+    });
+    this.log("Created new session", { sessionId: session.sessionId });
+    return session;
+  }
+
+  /**
+   * Why a session has ended: inactivity, maxSessionLength or midnight
+   */
+  private getSessionExpiry(session: SessionInfo): SessionEndReason | undefined {
+    return sessionExpiry(session, {
+      timeout: this.sessionTimeout,
+      maxLength: this.maxSessionLength,
+      midnightRollover: this.midnightRollover,
+    });
+  }
+
+  /**
+   * Report a session created at load, and replace an expired session
+   * with a new one. Runs at load, before each event and when the page
+   * becomes visible, so a tab left open rolls over without a reload.
+   */
+  private checkSession(): void {
+    // session_ended and session_started are tracked from here
+    if (this.checkingSession) {
+      return;
+    }
+    this.checkingSession = true;
+
+    try {
+      if (!this.sessionAnnounced) {
+        this.sessionAnnounced = true;
+        this.announceSession("new");
+        return;
+      }
+
+      this.syncSharedSession();
+      const reason = this.getSessionExpiry(this.session);
+      if (reason) {
+        this.endSession(reason);
+        this.startSession(reason);
+      }
+    } finally {
+      this.checkingSession = false;
+    }
+  }
+
+  /**
+   * Track session_ended for the current session
+   */
+  private endSession(reason: SessionEndReason): void {
+    const session = this.session;
+    this.log("Session ended", { sessionId: session.sessionId, reason });
+    if (!this.sessionEvents) {
+      return;
+    }
+    this.trackEvent("session_ended", {
+      reason,
+      session_duration: session.lastActivityAt - session.startedAt,
+      event_count: session.sequence,
+      last_activity_at: new Date(session.lastActivityAt).toISOString(),
+    });
+  }
+
+  /**
+   * Replace the current session with a new one and announce it
+   */
+  private startSession(reason: SessionEndReason): void {
+    const previousSessionId = this.session.sessionId;
+    this.session = createSession(this.generateSessionId());
+    this.storeSession();
+    this.tabs?.broadcast({
+      type: "session",
+      sessionId: this.session.sessionId,
+      reason,
+    });
+    this.log("Created new session", {
+      sessionId: this.session.sessionId,
+      reason,
+    });
+    this.announceSession(reason, previousSessionId);
+  }
+
+  /**
+   * Track session_started and notify onSessionChange listeners
+   */
+  private announceSession(
+    reason: SessionStartReason,
+    previousSessionId?: string
+  ): void {
+    const { entryPage, referrer, campaign } = this.session;
+    if (this.sessionEvents) {
+      this.trackEvent("session_started", {
+        reason,
+        previous_session_id: previousSessionId,
+        entry_page: entryPage,
+        referrer,
+        utm_source: campaign?.source,
+        utm_medium: campaign?.medium,
+        utm_campaign: campaign?.campaign,
+        utm_term: campaign?.term,
+        utm_content: campaign?.content,
+      });
+    }
+    this.notifySessionChange(reason);
+  }
+
+  private notifySessionChange(reason: SessionStartReason): void {
+    const session = this.getSession();
+    for (const listener of this.sessionListeners) {
+      try {
+        listener(session, reason);
+      } catch (error) {
+        this.log("onSessionChange listener failed", error);
+      }
     }
   }
 
   /**
-   * Update session timestamp in sessionStorage (tab-specific)
+   * Count an event in the current session and extend it. Tabs sharing a
+   * session continue each other's sequence.
+   */
+  private touchSession(): SessionInfo {
+    const session = this.session;
+    this.syncSharedSession();
+    session.sequence++;
+    session.lastActivityAt = Date.now();
+    this.storeSession();
+    return session;
+  }
+
+  /**
+   * With crossTab, take the sequence and last activity other tabs
+   * recorded for the shared session
+   */
+  private syncSharedSession(): void {
+    const store = this.getSessionStore();
+    if (!this.tabs || !this.canUseStorage() || !store) {
+      return;
+    }
+
+    try {
+      const stored = parseSession(store.getItem(this.SESSION_ID_KEY));
+      if (stored?.sessionId === this.session.sessionId) {
+        this.session.sequence = Math.max(
+          this.session.sequence,
+          stored.sequence
+        );
+        this.session.lastActivityAt = Math.max(
+          this.session.lastActivityAt,
+          stored.lastActivityAt
+        );
+      }
+    } catch {
+      // Storage blocked, keep this tab's state
+    }
+  }
+
+  /**
+   * Save the current session to session storage
    * Called on initialization and on each activity (track call)
    */
-  private updateSessionTimestamp(sessionId?: string): void {
+  private storeSession(): void {
+    const store = this.getSessionStore();
+    if (!this.canUseStorage() || !store) {
+      return;
+    }
+
+    try {
+      store.setItem(this.SESSION_ID_KEY, serializeSession(this.session));
+    } catch (error) {
+      this.log("Error updating session timestamp", error);
+    }
+  }
+
+  /**
+   * Storage holding the session: localStorage when sessions are shared
+   * across tabs, otherwise sessionStorage (tab-specific)
+   */
+  private getSessionStore(): Storage | undefined {
+    if (typeof window === "undefined") {
+      return undefined;
+    }
+    return this.tabs ? window.localStorage : window.sessionStorage;
+  }
+
+  /**
+   * Adopt session changes made in other tabs
+   */
+  private handleTabMessage(message: TabMessage): void {
     if (
-      !this.enableLocalStorage ||
-      typeof window === "undefined" ||
-      !window.sessionStorage
+      message.type !== "session" ||
+      message.sessionId === this.session.sessionId
     ) {
       return;
     }
 
+    this.log("Adopting session from another tab", {
+      sessionId: message.sessionId,
+      reason: message.reason,
+    });
+    // The other tab announced the session, only adopt its details
+    let stored: SessionInfo | null = null;
     try {
-      const sid = sessionId || this.sessionId;
-      sessionStorage.setItem(
-        this.SESSION_ID_KEY,
-        JSON.stringify({
-          sessionId: sid,
-          timestamp: Date.now(),
-        })
+      stored = parseSession(
+        this.getSessionStore()?.getItem(this.SESSION_ID_KEY) ?? null
       );
-    } catch (error) {
-      this.log("Error updating session timestamp", error);
+    } catch {
+      // Storage blocked
+    }
+    this.session =
+      stored?.sessionId === message.sessionId
+        ? stored
+        : createSession(message.sessionId);
+
+    if (message.reason === "reset") {
+      this.userId = undefined;
+      this.userTraits = {};
+      this.groups = {};
+      // The resetting tab already stored its new anonymous ID
+      this.anonymousId =
+        (this.canUseStorage() && this.identity.get(ANONYMOUS_ID_KEY)) ||
+        randomUuid();
     }
+    this.notifySessionChange(message.reason);
+  }
+
+  /**
+   * Whether the SDK may read and write browser storage
+   */
+  private canUseStorage(): boolean {
+    return this.enableLocalStorage && this.consent.isGranted("storage");
   }
 
   /**
    * Get current session ID
    */
   getSessionId(): string {
-    return this.sessionId;
+    return this.session.sessionId;
+  }
+
+  /**
+   * Get the current session: start time, event count, entry page and
+   * the referrer and UTM parameters it started with
+   */
+  getSession(): SessionInfo {
+    return {
+      ...this.session,
+      campaign: this.session.campaign && { ...this.session.campaign },
+    };
+  }
+
+  /**
+   * Subscribe to session changes: new sessions at load, after expiry or
+   * reset(), and sessions adopted from other tabs
+   * Returns an unsubscribe function
+   */
+  onSessionChange(listener: SessionChangeListener): () => void {
+    this.sessionListeners.push(listener);
+    return () => {
+      this.sessionListeners = this.sessionListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  /**
+   * Get the identified user ID, restored across page loads until reset()
+   */
+  getUserId(): string | undefined {
+    return this.userId;
+  }
+
+  /**
+   * Get the user traits collected by identify() and setUserProperties()
+   */
+  getUserTraits(): Record<string, any> {
+    return { ...this.userTraits };
+  }
+
+  /**
+   * Get the anonymous ID sent with every event, stable across page loads
+   * until reset()
+   */
+  getAnonymousId(): string {
+    return this.anonymousId;
   }
 
   /**
@@ -221,44 +1016,271 @@ export class AugurAnalytics {
     this.log("Feed ID updated", { feedId: this.feedId });
   }
 
-  /**
-   * Track an event with a specific feed ID (overrides global feed ID)
-   */
-  async trackWithFeed(
-    event: string,
-    feedId: string,
-    properties?: Record<string, any>,
-    eventName?: string,
-    eventDescription?: string
-  ): Promise<void> {
-    return this.track(event, properties, feedId, eventName, eventDescription);
+  /**
+   * Update consent for one or more categories
+   * Categories not mentioned keep their current value
+   */
+  setConsent(preferences: ConsentPreferences): void {
+    this.consent.update(preferences);
+  }
+
+  /**
+   * Get current consent state (undefined = pending)
+   */
+  getConsent(): ConsentPreferences {
+    return this.consent.get();
+  }
+
+  /**
+   * Follow the TCF v2 CMP, re-evaluating consent whenever it changes
+   * Global Privacy Control takes precedence over CMP consent
+   */
+  private setupTcf(options: TcfOptions): void {
+    const stop = watchTcfConsent(options, (preferences) => {
+      if (this.globalPrivacyControl) {
+        this.log("Ignoring TCF consent, Global Privacy Control is set");
+        return;
+      }
+
+      this.log("TCF consent received", preferences);
+      this.consent.update(preferences);
+    });
+
+    if (stop) {
+      this.stopTcf = stop;
+      this.log("Listening to TCF v2 CMP");
+    }
+  }
+
+  /**
+   * Apply a consent change: release or purge held events, persist or
+   * clear storage, and add or strip device info on queued events
+   */
+  private handleConsentChange(
+    current: ConsentPreferences,
+    previous: ConsentPreferences
+  ): void {
+    this.log("Consent updated", { current, previous });
+
+    if (current.storage === true && previous.storage !== true) {
+      this.adoptStoredIdentity();
+      this.restoreUser();
+      this.storeSession();
+      this.storeAnonymousId();
+      if (this.enableLocalStorage) {
+        this.tabs?.start();
+      }
+    } else if (current.storage === false && previous.storage !== false) {
+      this.tabs?.stop();
+      this.clearStoredData();
+    }
+
+    if (current.deviceInfo === true && previous.deviceInfo !== true) {
+      const deviceInfo = this.getDeviceInfo();
+      for (const event of this.eventQueue) {
+        if (event.properties && !event.properties.device_info) {
+          event.properties.device_info = deviceInfo;
+        }
+      }
+    } else if (current.deviceInfo === false && previous.deviceInfo !== false) {
+      for (const event of this.eventQueue) {
+        if (event.properties) {
+          delete event.properties.device_info;
+        }
+      }
+    }
+
+    if (current.analytics === false && previous.analytics !== false) {
+      this.log(
+        `Analytics consent denied, purging ${this.eventQueue.length} events`
+      );
+      this.eventQueue = [];
+      if (this.batchTimer) {
+        clearTimeout(this.batchTimer);
+        this.batchTimer = undefined;
+      }
+    } else if (current.analytics === true && previous.analytics !== true) {
+      this.setupAutoInjection();
+
+      // Release events held while consent was pending
+      if (this.eventQueue.length >= this.batchSize) {
+        this.flushQueue();
+      } else if (this.eventQueue.length > 0) {
+        this.resetBatchTimer();
+      }
+    }
+
+    const couldResend =
+      previous.analytics === true && previous.storage === true;
+    const canResend = current.analytics === true && current.storage === true;
+    if (canResend && !couldResend) {
+      this.sendPersistedEvents();
+    }
+  }
+
+  /**
+   * Remove the stored session and every persisted event
+   */
+  private clearStoredData(): void {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    try {
+      window.sessionStorage?.removeItem(this.SESSION_ID_KEY);
+      window.localStorage?.removeItem(this.SESSION_ID_KEY);
+      this.identity.remove(ANONYMOUS_ID_KEY);
+      this.identity.remove(USER_KEY);
+      this.storage.clear().catch((error) => {
+        this.log("Error clearing persisted events", error);
+      });
+      this.log("Cleared stored analytics data");
+    } catch (error) {
+      this.log("Error clearing stored analytics data", error);
+    }
+  }
+
+  /**
+   * Register a plugin at the end of the plugin chain
+   */
+  use(plugin: AugurPlugin): this {
+    this.plugins.add(plugin);
+
+    try {
+      plugin.setup?.(this);
+    } catch (error) {
+      this.log(`Plugin "${plugin.name}" failed in setup`, error);
+    }
+
+    this.log("Plugin registered", {
+      name: plugin.name,
+      plugins: this.plugins.names(),
+    });
+    return this;
+  }
+
+  /**
+   * Unregister a plugin by name
+   */
+  removePlugin(name: string): void {
+    this.plugins.remove(name);
+    this.log("Plugin removed", { name, plugins: this.plugins.names() });
+  }
+
+  /**
+   * Track an event with a specific feed ID (overrides global feed ID)
+   */
+  async trackWithFeed<TName extends EventName<TEvents>>(
+    event: TName,
+    feedId: string,
+    ...[properties, eventName, eventDescription]: TrackWithFeedArgs<
+      EventProperties<TEvents, TName>
+    >
+  ): Promise<void> {
+    const checked = this.checkTrackingPlan(event, properties);
+    if (checked === null) {
+      return;
+    }
+    return this.trackEvent(event, checked, feedId, eventName, eventDescription);
+  }
+
+  /**
+   * Track a custom event
+   */
+  track<TName extends EventName<TEvents>>(
+    event: TName,
+    ...[properties, feedId, eventName, eventDescription]: TrackArgs<
+      EventProperties<TEvents, TName>
+    >
+  ): void {
+    const checked = this.checkTrackingPlan(event, properties);
+    if (checked === null) {
+      return;
+    }
+    this.trackEvent(event, checked, feedId, eventName, eventDescription);
+  }
+
+  /**
+   * Validate a tracked event against the tracking plan
+   * Returns the properties to track (tagged with schema_violations in
+   * "tag" mode), or null when the event should be dropped
+   */
+  private checkTrackingPlan(
+    event: string,
+    properties?: Record<string, any>
+  ): Record<string, any> | undefined | null {
+    if (!this.trackingPlan) {
+      return properties;
+    }
+
+    const violations = validateEvent(this.trackingPlan, event, properties);
+    if (violations.length === 0) {
+      return properties;
+    }
+
+    const messages = formatViolations(violations);
+    switch (this.schemaValidation) {
+      case "drop":
+        this.log(
+          `Event "${event}" violates the tracking plan, dropping`,
+          messages
+        );
+        return null;
+      case "tag":
+        this.log(
+          `Event "${event}" violates the tracking plan, tagging`,
+          messages
+        );
+        return { ...properties, schema_violations: messages };
+      default:
+        this.log(`Event "${event}" violates the tracking plan`, messages);
+        return properties;
+    }
   }
 
   /**
-   * Track a custom event
+   * Build, enqueue and batch an event, without catalog type checks
    */
-  track(
+  private trackEvent(
     event: string,
     properties?: Record<string, any>,
     feedId?: string,
     eventName?: string,
     eventDescription?: string
   ): void {
-    // Update session timestamp on each activity (extends session timeout)
-    this.updateSessionTimestamp();
+    if (this.destroyed) {
+      this.log("Instance destroyed, dropping event", { event });
+      return;
+    }
+
+    if (this.consent.isDenied("analytics")) {
+      this.log("Analytics consent denied, dropping event", { event });
+      return;
+    }
 
-    const deviceInfo = this.getDeviceInfo();
+    // Roll over an expired session, then count the event and extend it
+    this.checkSession();
+    const session = this.touchSession();
+
+    // Only read the user agent and screen once device info consent is granted
+    const deviceInfo = this.consent.isGranted("deviceInfo")
+      ? this.getDeviceInfo()
+      : undefined;
 
     const payload: any = {
       write_key: this.writeKey,
-      session_id: this.sessionId,
+      session_id: session.sessionId,
       event_type: event,
       event_name: eventName || event,
       event_description: eventDescription || "",
       properties: {
         ...properties,
-        session_id: this.sessionId,
+        session_id: session.sessionId,
+        session_sequence: session.sequence,
+        session_started_at: new Date(session.startedAt).toISOString(),
         user_id: this.userId,
+        anonymous_id: this.anonymousId,
+        ...this.getUserContext(),
         timestamp: new Date().toISOString(),
         device_info: deviceInfo,
       },
@@ -271,10 +1293,33 @@ export class AugurAnalytics {
       payload.feed_id = effectiveFeedId;
     }
 
-    this.log("Queueing event", payload);
+    // Let plugins enrich, transform or drop the event
+    const enqueued = this.plugins.runEvent("beforeEnqueue", payload);
+    if (!enqueued) {
+      return;
+    }
+
+    // A single event must fit in a batch on its own
+    const processed = this.fitEvent(enqueued);
+    if (!processed) {
+      return;
+    }
+
+    this.log("Queueing event", processed);
 
     // Add to queue
-    this.eventQueue.push(payload);
+    this.eventQueue.push(processed);
+    this.errors.addBreadcrumb({
+      event_type: processed.event_type,
+      timestamp: processed.properties?.timestamp || new Date().toISOString(),
+      path: window.location.pathname,
+    });
+
+    // Hold events in memory until analytics consent is granted
+    if (!this.consent.isGranted("analytics")) {
+      this.log("Holding event until analytics consent is granted");
+      return;
+    }
 
     // Check if we should send immediately
     if (this.eventQueue.length >= this.batchSize) {
@@ -285,6 +1330,73 @@ export class AugurAnalytics {
     }
   }
 
+  /**
+   * Track an autocaptured interaction. Event names declared with
+   * data-augur-event are checked against the tracking plan like track().
+   */
+  private captureInteraction(capture: CapturedInteraction): void {
+    this.log("Interaction captured", capture);
+
+    const properties = capture.declared
+      ? this.checkTrackingPlan(capture.event, capture.properties)
+      : capture.properties;
+    if (properties === null) {
+      return;
+    }
+    this.trackEvent(capture.event, properties);
+  }
+
+  /**
+   * Report a caught error as error_occurred, with the same fingerprint,
+   * rate limit and breadcrumbs as uncaught errors
+   */
+  captureError(
+    error: unknown,
+    properties?: Record<string, any>,
+    source: ErrorSource = "manual"
+  ): void {
+    this.errors.capture(error, source, properties);
+  }
+
+  /**
+   * Track a Web Vital or navigation timing as a metric of the page view of
+   * the document load. LCP, CLS and INP are only final once the page is
+   * hidden, possibly several client-side navigations later.
+   */
+  private reportPerformance(metric: PerformanceMetric): void {
+    this.log("Performance metric", metric);
+    this.metric(metric.name, metric.value, {
+      ...metric.properties,
+      page_view_id: this.loadPageView?.pageViewId,
+      page_path: this.loadPageView?.path || window.location.pathname,
+    });
+  }
+
+  /**
+   * Truncate or drop an event too large for a single batch
+   */
+  private fitEvent(event: any): any | null {
+    if (fitsInBatch(event, this.maxBatchBytes)) {
+      return event;
+    }
+
+    if (this.oversizedEvents === "truncate") {
+      const truncated = truncateEvent(event, this.maxBatchBytes);
+      if (truncated) {
+        this.log(
+          `Event "${event.event_type}" exceeds maxBatchBytes, truncated properties`,
+          truncated.properties.truncated_properties
+        );
+        return truncated;
+      }
+    }
+
+    this.log(
+      `Event "${event.event_type}" exceeds maxBatchBytes (${this.maxBatchBytes} bytes), dropping`
+    );
+    return null;
+  }
+
   /**
    * Track page view
    */
@@ -296,16 +1408,37 @@ export class AugurAnalytics {
       ...properties,
     };
 
-    return this.track("page_view", pageData);
+    // Lets metrics and other events refer back to this page view
+    this.pageViewId = `pv-${Date.now()}-${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+    this.pagePath = pageData.path;
+    if (this.loadPageView && !this.loadPageView.pageViewId) {
+      this.loadPageView = { pageViewId: this.pageViewId, path: pageData.path };
+    }
+
+    return this.trackEvent("page_view", {
+      ...pageData,
+      page_view_id: this.pageViewId,
+    });
   }
 
   /**
    * Identify user
    */
   async identify(userId: string, traits?: Record<string, any>): Promise<void> {
+    // Traits and groups of a previous user don't carry over
+    if (this.userId && this.userId !== userId) {
+      this.userTraits = {};
+      this.groups = {};
+    }
     this.userId = userId;
-    return this.track("user_identified", {
+    this.userTraits = { ...this.userTraits, ...traits };
+    this.storeUser();
+    this.plugins.notify("onIdentify", userId, traits);
+    return this.trackEvent("user_identified", {
       user_id: userId,
+      anonymous_id: this.anonymousId,
       traits,
     });
   }
@@ -314,9 +1447,11 @@ export class AugurAnalytics {
    * Alias user (for when user changes identity)
    */
   async alias(newUserId: string, oldUserId?: string): Promise<void> {
-    return this.track("user_aliased", {
+    return this.trackEvent("user_aliased", {
       new_user_id: newUserId,
-      old_user_id: oldUserId || this.userId,
+      // Before identify() the previous identity is the anonymous one
+      old_user_id: oldUserId || this.userId || this.anonymousId,
+      anonymous_id: this.anonymousId,
     });
   }
 
@@ -324,7 +1459,12 @@ export class AugurAnalytics {
    * Track group association
    */
   async group(groupId: string, traits?: Record<string, any>): Promise<void> {
-    return this.track("group_associated", {
+    this.groups = {
+      ...this.groups,
+      [groupId]: { ...this.groups[groupId], ...traits },
+    };
+    this.storeUser();
+    return this.trackEvent("group_associated", {
       group_id: groupId,
       traits,
     });
@@ -337,7 +1477,7 @@ export class AugurAnalytics {
     screenName: string,
     properties?: Record<string, any>
   ): Promise<void> {
-    return this.track("screen_view", {
+    return this.trackEvent("screen_view", {
       screen_name: screenName,
       ...properties,
     });
@@ -347,14 +1487,21 @@ export class AugurAnalytics {
    * Track reset (clear user data)
    */
   async reset(): Promise<void> {
+    // Ended while the session still belongs to the previous user
+    this.endSession("reset");
+
     this.userId = undefined;
-    this.sessionId = this.generateSessionId();
+    this.userTraits = {};
+    this.groups = {};
+    this.storeUser();
+    this.anonymousId = randomUuid();
+    this.storeAnonymousId();
 
-    // Update localStorage with new session
-    this.updateSessionTimestamp();
+    this.plugins.notify("onReset");
 
-    return this.track("user_reset", {
-      new_session_id: this.sessionId,
+    this.startSession("reset");
+    return this.trackEvent("user_reset", {
+      new_session_id: this.session.sessionId,
     });
   }
 
@@ -362,7 +1509,9 @@ export class AugurAnalytics {
    * Set user properties
    */
   async setUserProperties(properties: Record<string, any>): Promise<void> {
-    return this.track("user_properties_set", {
+    this.userTraits = { ...this.userTraits, ...properties };
+    this.storeUser();
+    return this.trackEvent("user_properties_set", {
       properties,
     });
   }
@@ -376,7 +1525,7 @@ export class AugurAnalytics {
     value: number,
     label?: string
   ): Promise<void> {
-    return this.track("timing", {
+    return this.trackEvent("timing", {
       category,
       variable,
       value,
@@ -392,7 +1541,7 @@ export class AugurAnalytics {
     value: number,
     properties?: Record<string, any>
   ): Promise<void> {
-    return this.track("metric", {
+    return this.trackEvent("metric", {
       metric_name: name,
       metric_value: value,
       ...properties,
@@ -416,7 +1565,20 @@ export class AugurAnalytics {
    * Flush the event queue and send to backend
    */
   flushQueue(): void {
-    if (this.eventQueue.length === 0 || this.isSending) {
+    this.flush(false);
+  }
+
+  /**
+   * Send queued events. While the page unloads there is no time to wait
+   * for an in-flight batch or to retry, so the unload transport is used
+   * once and failures go straight to offline storage.
+   */
+  private flush(unloading: boolean): void {
+    if (
+      this.eventQueue.length === 0 ||
+      (this.isSending && !unloading) ||
+      !this.consent.isGranted("analytics")
+    ) {
       return;
     }
 
@@ -426,82 +1588,306 @@ export class AugurAnalytics {
       this.batchTimer = undefined;
     }
 
-    const eventsToSend = [...this.eventQueue];
+    // While offline, move the queue to offline storage (or keep it in
+    // memory) instead of burning through retries
+    if (!this.isOnline()) {
+      this.log("Offline, pausing delivery");
+      if (this.canUseStorage()) {
+        const offlineEvents = this.plugins.runEvents(
+          "beforeSend",
+          this.eventQueue
+        );
+        this.eventQueue = [];
+        this.persistEvents(offlineEvents);
+      }
+      return;
+    }
+
+    const eventsToSend = this.plugins.runEvents("beforeSend", this.eventQueue);
     this.eventQueue = [];
-    this.isSending = true;
+
+    if (eventsToSend.length === 0) {
+      this.log("All queued events dropped by plugins");
+      return;
+    }
+
+    if (!unloading) {
+      this.isSending = true;
+    }
+    this.plugins.notify("onFlush", eventsToSend);
 
     this.log(`Flushing ${eventsToSend.length} events`, eventsToSend);
 
-    this.sendBatch(eventsToSend)
-      .then(() => {
-        this.log("Events sent successfully");
-        this.isSending = false;
-      })
-      .catch((error) => {
-        this.log("Error sending events", error);
+    this.deliver(eventsToSend, unloading).then((delivered) => {
+      if (!unloading) {
         this.isSending = false;
+      }
+
+      // The endpoint is reachable again, resend anything left from earlier
+      if (delivered && this.hasPersistedEvents && !this.destroyed) {
+        this.sendPersistedEvents();
+      }
+    });
+  }
+
+  /**
+   * Send events in batches of at most maxBatchBytes, one after another.
+   * While unloading the batches that fit in the beacon quota go out at
+   * once and the rest is kept for the next page load. Resolves to whether
+   * all batches were delivered.
+   */
+  private async deliver(events: any[], unloading: boolean): Promise<boolean> {
+    const batches = splitBatches(events, this.maxBatchBytes);
+    if (batches.length > 1) {
+      this.log(`Split ${events.length} events into ${batches.length} batches`);
+    }
 
-        // Persist failed events to localStorage if enabled
-        if (this.enableLocalStorage) {
-          this.persistEvents(eventsToSend);
+    if (unloading) {
+      // Browsers share one quota across all in-flight keepalive and
+      // beacon requests, so batches beyond it would be rejected
+      let sendable = 0;
+      let budget = MAX_BEACON_BYTES;
+      while (sendable < batches.length) {
+        budget -= estimateBytes(batches[sendable]);
+        if (budget < 0) {
+          break;
         }
-      });
+        sendable++;
+      }
+
+      const kept = batches.slice(sendable).flat();
+      if (kept.length > 0 && this.canUseStorage()) {
+        this.log(`Keeping ${kept.length} events for the next page load`);
+        batches.length = sendable;
+        this.persistEvents(kept);
+      }
+
+      const results = await Promise.all(
+        batches.map((batch) => this.deliverBatch(batch, true))
+      );
+      return kept.length === 0 && results.every(Boolean);
+    }
+
+    let delivered = true;
+    for (const batch of batches) {
+      delivered = (await this.deliverBatch(batch, false)) && delivered;
+    }
+    return delivered;
+  }
+
+  /**
+   * Send one batch and handle the outcome: notify listeners, drop
+   * rejected events and persist the ones worth retrying
+   */
+  private async deliverBatch(
+    events: any[],
+    unloading: boolean
+  ): Promise<boolean> {
+    try {
+      const info = await this.sendBatch(events, unloading);
+      this.log("Events sent successfully");
+      this.plugins.notify("afterSend", events);
+      this.notifyDelivered(events, info);
+      return true;
+    } catch (error) {
+      this.log("Error sending events", error);
+      this.plugins.notify("afterSend", events, error);
+
+      // Rejected batches (e.g. 400) would fail the same way again
+      if (!isRetryableError(error)) {
+        this.log(`Dropping ${events.length} rejected events`);
+        this.notifyFailed(events, error, false);
+        return false;
+      }
+
+      // Persist failed events to offline storage if enabled
+      const persisted = this.canUseStorage();
+      if (persisted) {
+        this.persistEvents(events);
+        this.scheduleDrain(error);
+      }
+      this.notifyFailed(events, error, persisted);
+      return false;
+    }
   }
 
   /**
    * Send batch of events to backend with retry logic
    */
-  private async sendBatch(events: any[], retryCount = 0): Promise<void> {
-    const body = events;
+  private async sendBatch(
+    events: any[],
+    unloading = false,
+    retryCount = 0
+  ): Promise<DeliveryInfo> {
+    const transport = unloading ? this.unloadTransport : this.transport;
+    const maxRetries = unloading ? 0 : this.maxRetries;
+    const json = encodeBatch(events, this.batchFormat);
 
     try {
-      // Try Beacon API first (more efficient, survives page unload)
-      // Using text/plain to avoid CORS preflight - server should parse as JSON
-      if (navigator.sendBeacon) {
-        const blob = new Blob([JSON.stringify(body)], {
-          type: "text/plain",
-        });
-        const success = navigator.sendBeacon(
-          `${this.endpoint}/api/v1/analytics/events`,
-          blob
-        );
-
-        if (success) {
-          this.log("Event sent via Beacon API");
-          return; // Beacon sent successfully
-        }
-        // Fall through to fetch if beacon fails
-        this.log("Beacon API failed, falling back to fetch");
-      }
-
-      // Fallback to fetch with keepalive and text/plain to avoid CORS preflight
-      const response = await fetch(`${this.endpoint}/api/v1/analytics/events`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "text/plain",
-        },
-        body: JSON.stringify(body),
-        keepalive: true,
-      });
+      // Compressing is asynchronous, so skip it while unloading: the
+      // beacon has to be queued before the page goes away
+      const compressed =
+        this.compression && !unloading ? await this.compress(json) : undefined;
+
+      // Using text/plain to avoid CORS preflight - server should parse as JSON.
+      // Content-Encoding would also trigger a preflight, so gzip is
+      // signalled with a query parameter instead
+      // Our own batches would report themselves as http_request forever
+      const response = await sendUncaptured(() =>
+        transport.send({
+          url: `${this.endpoint}/api/v1/analytics/events${
+            compressed ? "?compression=gzip" : ""
+          }`,
+          body: compressed || json,
+          contentType: "text/plain",
+        })
+      );
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new DeliveryError(response.status, response.retryAfter);
       }
+
+      this.log(`Events sent via ${transport.name} transport`);
+      return {
+        transport: transport.name,
+        status: response.status,
+        acknowledged: response.acknowledged !== false,
+      };
     } catch (error) {
-      // Retry logic
-      if (retryCount < this.maxRetries) {
+      // Retry logic: give up on permanent failures, when offline (the
+      // batch is persisted and resent on "online"), or when the server
+      // asks us to wait longer than we are willing to hold the batch
+      const retryAfter =
+        error instanceof DeliveryError ? error.retryAfter : undefined;
+      if (
+        retryCount < maxRetries &&
+        isRetryableError(error) &&
+        this.isOnline() &&
+        (retryAfter === undefined || retryAfter <= this.retryMaxDelay)
+      ) {
+        const delay =
+          retryAfter ??
+          computeBackoff(retryCount, this.retryBaseDelay, this.retryMaxDelay);
         this.log(
-          `Retrying batch send (attempt ${retryCount + 1}/${this.maxRetries})`
-        );
-        await new Promise((resolve) =>
-          setTimeout(resolve, 1000 * (retryCount + 1))
+          `Retrying batch send in ${delay}ms (attempt ${
+            retryCount + 1
+          }/${maxRetries})`
         );
-        return this.sendBatch(events, retryCount + 1);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return this.sendBatch(events, unloading, retryCount + 1);
       }
       throw error;
     }
   }
 
+  /**
+   * Gzip a serialized batch, or undefined when compression is unavailable
+   * or would not make the payload smaller
+   */
+  private async compress(json: string): Promise<ArrayBuffer | undefined> {
+    if (!isCompressionSupported()) {
+      return undefined;
+    }
+
+    try {
+      const compressed = await gzip(json);
+      this.log(
+        `Compressed batch from ${json.length} to ${compressed.byteLength}`
+      );
+      return compressed.byteLength < json.length ? compressed : undefined;
+    } catch (error) {
+      this.log("Compression failed, sending uncompressed", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Subscribe to successful deliveries, called once per event
+   * Returns an unsubscribe function
+   */
+  onDelivered(listener: DeliveredListener): () => void {
+    this.deliveredListeners.push(listener);
+    return () => {
+      this.deliveredListeners = this.deliveredListeners.filter(
+        (l) => l !== listener
+      );
+    };
+  }
+
+  /**
+   * Subscribe to failed deliveries, called once per event
+   * Returns an unsubscribe function
+   */
+  onFailed(listener: FailedListener): () => void {
+    this.failedListeners.push(listener);
+    return () => {
+      this.failedListeners = this.failedListeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notifyDelivered(events: any[], info: DeliveryInfo): void {
+    for (const listener of this.deliveredListeners) {
+      for (const event of events) {
+        try {
+          listener(event, info);
+        } catch (error) {
+          this.log("onDelivered listener failed", error);
+        }
+      }
+    }
+  }
+
+  private notifyFailed(events: any[], error: unknown, persisted: boolean) {
+    for (const listener of this.failedListeners) {
+      for (const event of events) {
+        try {
+          listener(event, { error, persisted });
+        } catch (listenerError) {
+          this.log("onFailed listener failed", listenerError);
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether the browser reports a network connection
+   */
+  private isOnline(): boolean {
+    return typeof navigator === "undefined" || navigator.onLine !== false;
+  }
+
+  /**
+   * Resend persisted events once the network comes back
+   */
+  private setupNetworkHandlers(): void {
+    window.addEventListener("online", this.handleOnline);
+    window.addEventListener("offline", this.handleOffline);
+  }
+
+  /**
+   * Retry persisted events later without waiting for a page load:
+   * after Retry-After when the server sent one, otherwise after the
+   * longest backoff delay. Going back online drains immediately.
+   */
+  private scheduleDrain(error?: unknown): void {
+    if (!this.isOnline() || this.destroyed) {
+      return;
+    }
+
+    const delay =
+      error instanceof DeliveryError && error.retryAfter !== undefined
+        ? error.retryAfter
+        : this.retryMaxDelay;
+
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+    }
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = undefined;
+      this.sendPersistedEvents();
+    }, delay);
+  }
+
   /**
    * Setup unload handlers (pagehide and visibilitychange)
    * Following best practices from https://nicj.net/beaconing-in-practice/
@@ -512,73 +1898,107 @@ export class AugurAnalytics {
     }
 
     // Listen to pagehide event (recommended over unload/beforeunload)
-    window.addEventListener("pagehide", () => {
-      this.log("pagehide event - flushing queue");
-      this.flushQueue();
-    });
+    window.addEventListener("pagehide", this.handlePageHide);
 
     // Listen to visibilitychange when page becomes hidden
-    document.addEventListener("visibilitychange", () => {
-      if (document.visibilityState === "hidden") {
-        this.log("visibilitychange (hidden) - flushing queue");
-        this.flushQueue();
-      }
-    });
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
 
     this.unloadListenersAdded = true;
     this.log("Unload handlers setup complete");
   }
 
   /**
-   * Persist failed events to localStorage
+   * Persist failed events to the offline storage adapter
    */
   private persistEvents(events: any[]): void {
-    try {
-      const key = `augur_events_${this.sessionId}`;
-      const existing = localStorage.getItem(key);
-      const existingEvents = existing ? JSON.parse(existing) : [];
-      const combined = [...existingEvents, ...events];
-
-      // Limit to 100 events to avoid localStorage quota issues
-      const limited = combined.slice(-100);
-
-      localStorage.setItem(key, JSON.stringify(limited));
-      this.log(`Persisted ${events.length} events to localStorage`);
-    } catch (error) {
-      this.log("Error persisting events to localStorage", error);
+    if (events.length === 0) {
+      return;
     }
+
+    this.hasPersistedEvents = true;
+    this.storage
+      .add(events)
+      .then(() => {
+        this.log(`Persisted ${events.length} events to ${this.storage.name}`);
+      })
+      .catch((error) => {
+        this.log(`Error persisting events to ${this.storage.name}`, error);
+      });
   }
 
   /**
    * Send any persisted events from previous sessions
    */
   private sendPersistedEvents(): void {
-    if (!this.enableLocalStorage) {
+    if (
+      this.isDraining ||
+      !this.isOnline() ||
+      !this.canUseStorage() ||
+      !this.consent.isGranted("analytics")
+    ) {
       return;
     }
 
-    try {
-      const keys = Object.keys(localStorage).filter((key) =>
-        key.startsWith("augur_events_")
-      );
+    // With cross-tab coordination only the leader tab drains the backlog
+    if (this.tabs && !this.tabs.isLeader()) {
+      this.log("Not the leader tab, leaving persisted events");
+      return;
+    }
+
+    this.isDraining = true;
+    this.drainPersistedEvents()
+      .catch((error) => {
+        this.log("Error sending persisted events", error);
+        if (isRetryableError(error)) {
+          this.scheduleDrain(error);
+        }
+      })
+      .finally(() => {
+        this.isDraining = false;
+      });
+  }
 
-      for (const key of keys) {
-        const events = JSON.parse(localStorage.getItem(key) || "[]");
-
-        if (events.length > 0) {
-          this.log(`Found ${events.length} persisted events, sending...`);
-          this.sendBatch(events)
-            .then(() => {
-              localStorage.removeItem(key);
-              this.log("Persisted events sent and removed");
-            })
-            .catch((error) => {
-              this.log("Error sending persisted events", error);
-            });
+  /**
+   * Send persisted events oldest first, one batch at a time, removing
+   * each batch only once it was delivered
+   */
+  private async drainPersistedEvents(): Promise<void> {
+    for (;;) {
+      const peeked = await this.storage.peek(this.batchSize);
+      if (peeked.length === 0) {
+        this.hasPersistedEvents = false;
+        return;
+      }
+
+      // Persisted events already passed through beforeSend
+      const [events] = splitBatches(
+        peeked.map((entry) => entry.event),
+        this.maxBatchBytes
+      );
+      this.log(`Found ${events.length} persisted events, sending...`);
+
+      const ids = peeked.slice(0, events.length).map((entry) => entry.id);
+      let info: DeliveryInfo;
+
+      try {
+        info = await this.sendBatch(events);
+      } catch (error) {
+        this.plugins.notify("afterSend", events, error);
+        if (isRetryableError(error)) {
+          this.notifyFailed(events, error, true);
+          throw error;
         }
+
+        this.log(`Dropping ${events.length} rejected persisted events`);
+        await this.storage.remove(ids);
+        this.notifyFailed(events, error, false);
+        continue;
       }
-    } catch (error) {
-      this.log("Error loading persisted events", error);
+
+      await this.storage.remove(ids);
+      this.log("Persisted events sent and removed");
+      this.plugins.notify("afterSend", events);
+      this.notifyDelivered(events, info);
     }
   }
 
@@ -586,26 +2006,72 @@ export class AugurAnalytics {
    * Auto-inject session ID into all fetch requests
    */
   private setupAutoInjection(): void {
-    const originalFetch = window.fetch;
-
-    window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
-      const headers = new Headers(init?.headers);
-      headers.set("X-Augur-Session-ID", this.sessionId);
-
-      const newInit: RequestInit = {
-        ...init,
-        headers,
-      };
+    if (this.network || (!this.injectHeaders && !this.networkCapture)) {
+      return;
+    }
 
-      return originalFetch(input, newInit);
-    };
+    this.network = new NetworkInstrumentation({
+      headers: this.injectHeaders
+        ? (url, existing) => this.injectionHeaders(url, existing)
+        : undefined,
+      capture: this.networkCapture,
+      onRequest: (request) => this.trackEvent("http_request", request),
+      // Our own batches would report themselves forever. Sends are marked
+      // too, but a transport that awaits before fetching escapes the mark.
+      ignore: (url) => url.href.startsWith(this.resolveEndpoint()),
+    });
+    this.network.start();
 
     this.log("Auto-injection setup complete", {
-      sessionId: this.sessionId,
+      sessionId: this.session.sessionId,
       feedId: this.feedId,
+      injectOrigins: this.injectOrigins,
+      traceHeaders: !!this.traceHeaders,
+      networkCapture: this.networkCapture,
     });
   }
 
+  /**
+   * Headers for a request to url. Other origins only get them when listed
+   * in injectOrigins: unknown headers leak the session and make CDNs
+   * reject the CORS preflight.
+   */
+  private injectionHeaders(
+    url: URL,
+    existing: Headers
+  ): Record<string, string> | undefined {
+    // Consent may be withdrawn after the wrappers are installed
+    if (!this.consent.isGranted("analytics")) {
+      return undefined;
+    }
+    if (
+      url.origin !== window.location.origin &&
+      !matchesOrigin(url, this.injectOrigins)
+    ) {
+      return undefined;
+    }
+
+    const headers: Record<string, string> = {};
+    if (!existing.has("X-Augur-Session-ID")) {
+      headers["X-Augur-Session-ID"] = this.session.sessionId;
+    }
+    if (this.traceHeaders) {
+      Object.assign(
+        headers,
+        traceHeaders(this.session.sessionId, existing, this.traceHeaders)
+      );
+    }
+    return headers;
+  }
+
+  private resolveEndpoint(): string {
+    try {
+      return new URL(this.endpoint, window.location.href).href;
+    } catch {
+      return this.endpoint;
+    }
+  }
+
   /**
    * Get device information
    */
@@ -744,6 +2210,62 @@ export class AugurAnalytics {
     return timezoneToCountry[timezone];
   }
 
+  /**
+   * Send queued events, then undo everything this instance installed:
+   * fetch/XHR wrappers, listeners, timers, trackers and the TCF listener.
+   * Events tracked afterwards are dropped. Call it when unmounting, e.g.
+   * on hot module replacement.
+   */
+  destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    // Same path as page unload: the beacon outlives whatever tears us down
+    this.flush(true);
+    this.destroyed = true;
+
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+    }
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+
+    window.removeEventListener("pagehide", this.handlePageHide);
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange
+    );
+    window.removeEventListener("online", this.handleOnline);
+    window.removeEventListener("offline", this.handleOffline);
+    this.unloadListenersAdded = false;
+
+    this.network?.stop();
+    this.network = undefined;
+    this.pageviews?.stop();
+    this.autocapture?.stop();
+    this.performanceMonitor?.stop();
+    this.errors.stop();
+    this.tabs?.stop();
+    this.stopTcf?.();
+    this.stopTcf = undefined;
+
+    if (instances.get(this.writeKey) === this) {
+      instances.delete(this.writeKey);
+    }
+    this.log("Instance destroyed", { writeKey: this.writeKey });
+  }
+
+  /**
+   * Whether destroy() was called
+   */
+  isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
   /**
    * Log debug messages
    */
@@ -757,8 +2279,19 @@ export class AugurAnalytics {
 /**
  * Create a new Augur Analytics instance
  */
-export function createAnalytics(config: AugurConfig): AugurAnalytics {
-  return new AugurAnalytics(config);
+export function createAnalytics<
+  TEvents extends EventCatalog<TEvents> = UntypedEvents
+>(config: AugurConfig): AugurAnalytics<TEvents> {
+  return new AugurAnalytics<TEvents>(config);
+}
+
+/**
+ * The live instance for a writeKey, if any
+ */
+export function getAnalytics<
+  TEvents extends EventCatalog<TEvents> = UntypedEvents
+>(writeKey: string): AugurAnalytics<TEvents> | undefined {
+  return instances.get(writeKey) as AugurAnalytics<TEvents> | undefined;
 }
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for Augur Analytics autocapture
+ */
+
+import {
+  Autocapture,
+  AutocaptureOptions,
+  CapturedInteraction,
+  selectorPath,
+} from "./autocapture";
+
+describe("Autocapture", () => {
+  let autocapture: Autocapture;
+  let captured: CapturedInteraction[];
+
+  const start = (options: AutocaptureOptions = {}) => {
+    autocapture = new Autocapture(options, (capture) => captured.push(capture));
+    autocapture.start();
+  };
+
+  const click = (selector: string) =>
+    document
+      .querySelector(selector)!
+      .dispatchEvent(new MouseEvent("click", { bubbles: true }));
+
+  beforeEach(() => {
+    captured = [];
+    document.body.innerHTML = `
+      <div id="pricing">
+        <div class="plans">
+          <button class="primary cta" data-augur-event="signup_clicked"
+            data-augur-prop-plan-type="pro"><span>Start  trial</span></button>
+          <button>Plain</button>
+        </div>
+        <a href="/docs" data-augur-event="docs_opened">Docs</a>
+        <form data-augur-event="newsletter_submitted">
+          <input name="email" data-augur-event="email_changed" value="me@example.com" />
+          <button type="submit">Join</button>
+        </form>
+        <div data-augur-ignore>
+          <button data-augur-event="hidden_clicked">Hidden</button>
+        </div>
+      </div>`;
+  });
+
+  afterEach(() => {
+    autocapture.stop();
+  });
+
+  it("should capture clicks on declared elements with their props", () => {
+    start();
+
+    click("button.primary span");
+
+    expect(captured).toEqual([
+      {
+        event: "signup_clicked",
+        declared: true,
+        properties: {
+          element_selector:
+            "#pricing > div.plans:nth-of-type(1) > button.primary.cta:nth-of-type(1)",
+          element_tag: "button",
+          element_text: "Start trial",
+          interaction: "click",
+          plan_type: "pro",
+        },
+      },
+    ]);
+  });
+
+  it("should include link targets", () => {
+    start();
+
+    click("a");
+
+    expect(captured[0].properties.element_href).toBe("http://localhost/docs");
+  });
+
+  it("should ignore undeclared elements unless allInteractive", () => {
+    start();
+    click(".plans button:nth-of-type(2)");
+    expect(captured).toHaveLength(0);
+    autocapture.stop();
+
+    start({ allInteractive: true });
+    click(".plans button:nth-of-type(2)");
+    expect(captured[0]).toMatchObject({
+      event: "element_clicked",
+      declared: false,
+      properties: { element_text: "Plain" },
+    });
+  });
+
+  it("should capture submits and changes without input values", () => {
+    start();
+
+    document
+      .querySelector("form")!
+      .dispatchEvent(new Event("submit", { bubbles: true }));
+    document
+      .querySelector("input")!
+      .dispatchEvent(new Event("change", { bubbles: true }));
+
+    expect(captured.map((c) => c.event)).toEqual([
+      "newsletter_submitted",
+      "email_changed",
+    ]);
+    expect(JSON.stringify(captured)).not.toContain("me@example.com");
+    expect(captured[1].properties).not.toHaveProperty("element_text");
+  });
+
+  it("should respect the deny-list", () => {
+    start({ denySelector: "#pricing a" });
+
+    click("[data-augur-event=hidden_clicked]");
+    click("a");
+
+    expect(captured).toHaveLength(0);
+  });
+
+  it("should stop listening on stop", () => {
+    start();
+    autocapture.stop();
+
+    click("button.primary");
+
+    expect(captured).toHaveLength(0);
+  });
+
+  it("should build selector paths up to the closest id", () => {
+    expect(selectorPath(document.querySelector("form button")!)).toBe(
+      "#pricing > form > button"
+    );
+  });
+});
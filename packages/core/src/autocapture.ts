@@ -0,0 +1,249 @@
+/**
+ * Augur Analytics SDK - Autocapture
+ * Declarative click, submit and change tracking through data attributes
+ *
+ *   <button data-augur-event="signup_clicked" data-augur-prop-plan="pro">
+ */
+
+export type AutocaptureInteraction = "click" | "submit" | "change";
+
+export interface AutocaptureOptions {
+  interactions?: AutocaptureInteraction[]; // DOM events to listen for (default: all three)
+  allInteractive?: boolean; // Also capture links, buttons and form controls without data-augur-event (default: false)
+  denySelector?: string; // Never capture elements matching or inside this selector
+  maxTextLength?: number; // Longest element text captured (default: 255)
+}
+
+export interface CapturedInteraction {
+  event: string; // data-augur-event value, or a generic name for allInteractive captures
+  declared: boolean; // Whether the element declared the event with data-augur-event
+  properties: Record<string, any>;
+}
+
+const EVENT_ATTRIBUTE = "data-augur-event";
+const PROP_PREFIX = "data-augur-prop-";
+
+// Always excluded, in addition to denySelector
+const DEFAULT_DENY_SELECTOR = "[data-augur-ignore]";
+
+const INTERACTIVE_SELECTOR = [
+  "a[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "summary",
+  "[role=button]",
+  "[role=link]",
+  "form",
+].join(",");
+
+// Generic event names for elements without data-augur-event
+const GENERIC_EVENTS: Record<AutocaptureInteraction, string> = {
+  click: "element_clicked",
+  submit: "form_submitted",
+  change: "element_changed",
+};
+
+/**
+ * Listens on the document (capture phase) and reports interactions with
+ * opted-in elements. Form control values are never read.
+ */
+export class Autocapture {
+  private options: AutocaptureOptions;
+  private onCapture: (capture: CapturedInteraction) => void;
+  private active = false;
+  private handleEvent = (event: Event) => this.capture(event);
+
+  constructor(
+    options: AutocaptureOptions,
+    onCapture: (capture: CapturedInteraction) => void
+  ) {
+    this.options = options;
+    this.onCapture = onCapture;
+  }
+
+  start(): void {
+    if (this.active || typeof document === "undefined") {
+      return;
+    }
+    this.active = true;
+
+    for (const type of this.interactions()) {
+      // Capture phase, so handlers calling stopPropagation do not hide events
+      document.addEventListener(type, this.handleEvent, true);
+    }
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    for (const type of this.interactions()) {
+      document.removeEventListener(type, this.handleEvent, true);
+    }
+  }
+
+  private interactions(): AutocaptureInteraction[] {
+    return this.options.interactions || ["click", "submit", "change"];
+  }
+
+  private capture(event: Event): void {
+    const interaction = event.type as AutocaptureInteraction;
+    const target = event.target;
+    if (!(target instanceof Element)) {
+      return;
+    }
+
+    const denySelector = this.options.denySelector
+      ? `${DEFAULT_DENY_SELECTOR},${this.options.denySelector}`
+      : DEFAULT_DENY_SELECTOR;
+    if (target.closest(denySelector)) {
+      return;
+    }
+
+    const declared = target.closest(`[${EVENT_ATTRIBUTE}]`);
+    const element =
+      declared && triggerOf(declared) === interaction
+        ? declared
+        : this.options.allInteractive
+        ? target.closest(INTERACTIVE_SELECTOR)
+        : null;
+
+    if (!element || triggerOf(element) !== interaction) {
+      return;
+    }
+
+    const name = element.getAttribute(EVENT_ATTRIBUTE);
+    this.onCapture({
+      event: name || GENERIC_EVENTS[interaction],
+      declared: !!name,
+      properties: {
+        ...this.describe(element),
+        interaction,
+        ...readProps(element),
+      },
+    });
+  }
+
+  private describe(element: Element): Record<string, any> {
+    const description: Record<string, any> = {
+      element_selector: selectorPath(element),
+      element_tag: element.tagName.toLowerCase(),
+    };
+
+    // Text of form controls can reveal what was typed or selected
+    if (!isFormControl(element)) {
+      const text = (element.textContent || "").replace(/\s+/g, " ").trim();
+      if (text) {
+        description.element_text = text.slice(
+          0,
+          this.options.maxTextLength ?? 255
+        );
+      }
+    }
+
+    const link = element.closest("a[href]") as HTMLAnchorElement | null;
+    if (link) {
+      description.element_href = link.href;
+    }
+
+    return description;
+  }
+}
+
+/**
+ * DOM event that counts as interacting with an element
+ */
+function triggerOf(element: Element): AutocaptureInteraction {
+  if (element instanceof HTMLFormElement) {
+    return "submit";
+  }
+  if (
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement && !isClickableInput(element))
+  ) {
+    return "change";
+  }
+  return "click";
+}
+
+function isClickableInput(input: HTMLInputElement): boolean {
+  return ["button", "submit", "reset", "image", "checkbox", "radio"].includes(
+    input.type
+  );
+}
+
+function isFormControl(element: Element): boolean {
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  );
+}
+
+/**
+ * data-augur-prop-plan-type="pro" -> { plan_type: "pro" }
+ */
+function readProps(element: Element): Record<string, string> {
+  const props: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.name.startsWith(PROP_PREFIX)) {
+      const key = attribute.name.slice(PROP_PREFIX.length).replace(/-/g, "_");
+      props[key] = attribute.value;
+    }
+  }
+  return props;
+}
+
+/**
+ * CSS selector path from the closest ancestor with an id (or body) down to
+ * the element, e.g. "#checkout > form > button.primary:nth-of-type(2)"
+ */
+export function selectorPath(element: Element, maxDepth = 10): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && parts.length < maxDepth) {
+    if (current.id) {
+      parts.unshift(`#${cssEscape(current.id)}`);
+      break;
+    }
+
+    const tag = current.tagName.toLowerCase();
+    if (tag === "body" || tag === "html") {
+      parts.unshift(tag);
+      break;
+    }
+
+    let part = tag;
+    const classes = Array.from(current.classList).slice(0, 2);
+    if (classes.length > 0) {
+      part += classes.map((name) => `.${cssEscape(name)}`).join("");
+    }
+
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const sameTag = Array.from(parent.children).filter(
+        (sibling) => sibling.tagName === current!.tagName
+      );
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+      }
+    }
+
+    parts.unshift(part);
+    current = parent;
+  }
+
+  return parts.join(" > ");
+}
+
+function cssEscape(value: string): string {
+  return typeof CSS !== "undefined" && CSS.escape
+    ? CSS.escape(value)
+    : value.replace(/[^\w-]/g, (char) => `\\${char}`);
+}
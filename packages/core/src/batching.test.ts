@@ -0,0 +1,105 @@
+/**
+ * Unit tests for Augur Analytics byte-aware batching
+ */
+
+import { fitsInBatch, splitBatches, truncateEvent } from "./batching";
+import { estimateBytes } from "./storage";
+
+const event = (name: string, payload = "") => ({
+  event_type: name,
+  session_id: "sess-1",
+  properties: {
+    session_id: "sess-1",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    payload,
+  },
+});
+
+describe("Batching", () => {
+  describe("splitBatches", () => {
+    it("should keep small batches together", () => {
+      const events = [event("first"), event("second")];
+
+      expect(splitBatches(events, 10000)).toEqual([events]);
+    });
+
+    it("should split batches at the byte limit in order", () => {
+      const events = Array.from({ length: 6 }, (_, i) =>
+        event(`e${i}`, "x".repeat(1000))
+      );
+
+      const batches = splitBatches(events, 3000);
+
+      expect(batches.length).toBeGreaterThan(1);
+      expect(batches.flat()).toEqual(events);
+      for (const batch of batches) {
+        expect(estimateBytes(batch)).toBeLessThanOrEqual(3000);
+      }
+    });
+
+    it("should give an oversized event a batch of its own", () => {
+      const events = [event("small"), event("huge", "x".repeat(5000))];
+
+      const batches = splitBatches(events, 3000);
+
+      expect(batches.map((batch) => batch.length)).toEqual([1, 1]);
+    });
+  });
+
+  describe("truncateEvent", () => {
+    it("should truncate the largest properties first", () => {
+      const oversized = {
+        ...event("huge"),
+        properties: {
+          ...event("huge").properties,
+          html: "x".repeat(5000),
+          label: "keep me",
+        },
+      };
+
+      const truncated = truncateEvent(oversized, 2000)!;
+
+      expect(fitsInBatch(truncated, 2000)).toBe(true);
+      expect(truncated.properties.html).toBe("[truncated]");
+      expect(truncated.properties.label).toBe("keep me");
+      expect(truncated.properties.timestamp).toBe("2024-01-01T00:00:00.000Z");
+      expect(truncated.properties.truncated_properties).toEqual(["html"]);
+    });
+
+    it("should keep the identity and session properties", () => {
+      const groupIds = Array.from(
+        { length: 100 },
+        (_, i) => `org-${String(i).padStart(12, "0")}`
+      );
+      const oversized = {
+        ...event("huge"),
+        properties: {
+          ...event("huge").properties,
+          anonymous_id: "anon-1",
+          session_sequence: 3,
+          group_ids: groupIds,
+          user_traits: { bio: "x".repeat(1500) },
+        },
+      };
+
+      const truncated = truncateEvent(oversized, 3000)!;
+
+      expect(truncated.properties).toMatchObject({
+        anonymous_id: "anon-1",
+        session_sequence: 3,
+        group_ids: groupIds,
+        user_traits: "[truncated]",
+        truncated_properties: ["user_traits"],
+      });
+    });
+
+    it("should return null when the event cannot fit", () => {
+      const oversized = {
+        ...event("huge"),
+        event_description: "x".repeat(5000),
+      };
+
+      expect(truncateEvent(oversized, 2000)).toBeNull();
+    });
+  });
+});
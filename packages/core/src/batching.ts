@@ -0,0 +1,102 @@
+/**
+ * Augur Analytics SDK - Batching
+ * Split event batches by serialized size
+ */
+
+import { estimateBytes } from "./storage";
+
+// Browsers reject sendBeacon / keepalive fetch bodies beyond 64KB
+export const MAX_BEACON_BYTES = 64 * 1024;
+
+// Default batch budget, leaving headroom below the beacon cap
+export const DEFAULT_MAX_BATCH_BYTES = 60 * 1024;
+
+// Room for the batch wrapper: array brackets or envelope fields
+const BATCH_OVERHEAD_BYTES = 256;
+
+// Properties set by the SDK itself are never truncated. The app's
+// user_traits and group_traits may be large and stay truncatable.
+const SDK_PROPERTIES = [
+  "session_id",
+  "session_sequence",
+  "session_started_at",
+  "user_id",
+  "anonymous_id",
+  "group_ids",
+  "traits_hash",
+  "timestamp",
+  "device_info",
+];
+
+export type OversizedEventMode = "truncate" | "drop";
+
+/**
+ * Split events into consecutive batches whose serialized size stays
+ * within maxBytes. Order is preserved; an event larger than maxBytes on
+ * its own gets a batch to itself.
+ */
+export function splitBatches<T>(events: T[], maxBytes: number): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let bytes = BATCH_OVERHEAD_BYTES;
+
+  for (const event of events) {
+    // +1 for the separating comma
+    const eventBytes = estimateBytes(event) + 1;
+    if (current.length > 0 && bytes + eventBytes > maxBytes) {
+      batches.push(current);
+      current = [];
+      bytes = BATCH_OVERHEAD_BYTES;
+    }
+    current.push(event);
+    bytes += eventBytes;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Whether a single event fits in a batch of maxBytes
+ */
+export function fitsInBatch(event: unknown, maxBytes: number): boolean {
+  return estimateBytes(event) + 1 + BATCH_OVERHEAD_BYTES <= maxBytes;
+}
+
+/**
+ * Shrink an oversized event by replacing its largest properties with a
+ * "[truncated]" marker until it fits in a batch. The replaced keys are
+ * listed in properties.truncated_properties. Returns null when the event
+ * does not fit even without its custom properties.
+ */
+export function truncateEvent(
+  event: Record<string, any>,
+  maxBytes: number
+): Record<string, any> | null {
+  const properties: Record<string, any> = { ...event.properties };
+  const truncated: string[] = [];
+  const candidate = () => ({
+    ...event,
+    properties: { ...properties, truncated_properties: truncated },
+  });
+
+  // Largest first, so as few properties as possible are lost
+  const keys = Object.keys(properties)
+    .filter((key) => !SDK_PROPERTIES.includes(key))
+    .sort(
+      (a, b) => estimateBytes(properties[b]) - estimateBytes(properties[a])
+    );
+
+  for (const key of keys) {
+    if (fitsInBatch(candidate(), maxBytes)) {
+      break;
+    }
+    properties[key] = "[truncated]";
+    truncated.push(key);
+  }
+
+  const result = candidate();
+  return fitsInBatch(result, maxBytes) ? result : null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for Augur Analytics payload compression
+ */
+
+import { CompressionStream, DecompressionStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import {
+  createEnvelope,
+  decodeBatch,
+  encodeBatch,
+  expandEnvelope,
+  gunzip,
+  gzip,
+  isCompressionSupported,
+} from "./compression";
+
+const deviceInfo = { browser: "Chrome", os: "macOS", device: "Desktop" };
+
+const event = (name: string, sessionId = "sess-1") => ({
+  write_key: "test-key",
+  session_id: sessionId,
+  event_type: name,
+  properties: {
+    session_id: sessionId,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    device_info: deviceInfo,
+  },
+  source: "frontend",
+});
+
+describe("Payload Compression", () => {
+  describe("createEnvelope", () => {
+    it("should hoist context shared by every event", () => {
+      const envelope = createEnvelope([event("first"), event("second")]);
+
+      expect(envelope).toMatchObject({
+        write_key: "test-key",
+        session_id: "sess-1",
+        source: "frontend",
+        device_info: deviceInfo,
+      });
+      expect(envelope.events[0]).toEqual({
+        event_type: "first",
+        properties: { timestamp: "2024-01-01T00:00:00.000Z" },
+      });
+    });
+
+    it("should keep fields that differ between events", () => {
+      const envelope = createEnvelope([event("first"), event("second", "b")]);
+
+      expect(envelope.session_id).toBeUndefined();
+      expect(envelope.events.map((e) => e.session_id)).toEqual(["sess-1", "b"]);
+      expect(envelope.write_key).toBe("test-key");
+    });
+
+    it("should round-trip through expandEnvelope", () => {
+      const events = [event("first"), event("second", "b")];
+
+      expect(expandEnvelope(createEnvelope(events))).toEqual(events);
+    });
+
+    it("should shrink the serialized batch", () => {
+      const events = Array.from({ length: 10 }, (_, i) => event(`e${i}`));
+
+      expect(encodeBatch(events, "envelope").length).toBeLessThan(
+        encodeBatch(events).length / 2
+      );
+    });
+  });
+
+  describe("decodeBatch", () => {
+    it("should decode both batch formats", () => {
+      const events = [event("first"), event("second")];
+
+      expect(decodeBatch(encodeBatch(events))).toEqual(events);
+      expect(decodeBatch(encodeBatch(events, "envelope"))).toEqual(events);
+    });
+  });
+
+  describe("gzip", () => {
+    beforeEach(() => {
+      Object.assign(global, {
+        CompressionStream,
+        DecompressionStream,
+        TextEncoder,
+        TextDecoder,
+      });
+    });
+
+    afterEach(() => {
+      delete (global as any).CompressionStream;
+      delete (global as any).DecompressionStream;
+    });
+
+    it("should detect CompressionStream support", () => {
+      expect(isCompressionSupported()).toBe(true);
+
+      delete (global as any).CompressionStream;
+      expect(isCompressionSupported()).toBe(false);
+    });
+
+    it("should compress and decompress a batch", async () => {
+      const json = encodeBatch(
+        Array.from({ length: 10 }, (_, i) => event(`e${i}`))
+      );
+
+      const compressed = await gzip(json);
+
+      expect(compressed.byteLength).toBeLessThan(json.length);
+      expect(await gunzip(compressed)).toBe(json);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Augur Analytics SDK - Payload Compression
+ * Compact batch envelope and gzip encoding for event batches
+ */
+
+export type BatchFormat = "array" | "envelope";
+
+export interface BatchEnvelope {
+  write_key?: string;
+  session_id?: string;
+  source?: string;
+  device_info?: Record<string, any>;
+  events: Record<string, any>[];
+}
+
+// Top-level fields hoisted to the envelope when shared by every event
+const HOISTED_FIELDS = ["write_key", "session_id", "source"] as const;
+
+/**
+ * Move context shared by every event in the batch (write_key, session_id,
+ * source and properties.device_info) to the batch level. Fields that differ
+ * between events, e.g. after draining events from several sessions, stay
+ * on each event.
+ */
+export function createEnvelope(events: Record<string, any>[]): BatchEnvelope {
+  const envelope: BatchEnvelope = { events: [] };
+  if (events.length === 0) {
+    return envelope;
+  }
+
+  const shared = (read: (event: Record<string, any>) => any) => {
+    const first = JSON.stringify(read(events[0]));
+    return (
+      first !== undefined &&
+      events.every((event) => JSON.stringify(read(event)) === first)
+    );
+  };
+
+  for (const field of HOISTED_FIELDS) {
+    if (shared((event) => event[field])) {
+      envelope[field] = events[0][field];
+    }
+  }
+  const hoistDeviceInfo = shared((event) => event.properties?.device_info);
+  if (hoistDeviceInfo) {
+    envelope.device_info = events[0].properties.device_info;
+  }
+
+  envelope.events = events.map((event) => {
+    const compact: Record<string, any> = { ...event };
+    for (const field of HOISTED_FIELDS) {
+      if (field in envelope) {
+        delete compact[field];
+      }
+    }
+
+    if (compact.properties) {
+      const properties = { ...compact.properties };
+      if (hoistDeviceInfo) {
+        delete properties.device_info;
+      }
+      // properties.session_id repeats the top-level session_id
+      if (
+        envelope.session_id !== undefined &&
+        properties.session_id === envelope.session_id
+      ) {
+        delete properties.session_id;
+      }
+      compact.properties = properties;
+    }
+
+    return compact;
+  });
+
+  return envelope;
+}
+
+/**
+ * Restore the full events of a batch envelope
+ */
+export function expandEnvelope(envelope: BatchEnvelope): Record<string, any>[] {
+  return envelope.events.map((compact) => {
+    const event: Record<string, any> = { ...compact };
+    for (const field of HOISTED_FIELDS) {
+      if (envelope[field] !== undefined && event[field] === undefined) {
+        event[field] = envelope[field];
+      }
+    }
+
+    if (event.properties) {
+      const properties = { ...event.properties };
+      if (
+        envelope.device_info !== undefined &&
+        properties.device_info === undefined
+      ) {
+        properties.device_info = envelope.device_info;
+      }
+      if (
+        envelope.session_id !== undefined &&
+        properties.session_id === undefined
+      ) {
+        properties.session_id = envelope.session_id;
+      }
+      event.properties = properties;
+    }
+
+    return event;
+  });
+}
+
+/**
+ * Serialize a batch in the given format
+ */
+export function encodeBatch(
+  events: Record<string, any>[],
+  format: BatchFormat = "array"
+): string {
+  return JSON.stringify(
+    format === "envelope" ? createEnvelope(events) : events
+  );
+}
+
+/**
+ * Parse a serialized batch in either format back into events
+ */
+export function decodeBatch(body: string): Record<string, any>[] {
+  const parsed = JSON.parse(body);
+  return Array.isArray(parsed) ? parsed : expandEnvelope(parsed);
+}
+
+/**
+ * Whether the browser can gzip payloads (CompressionStream)
+ */
+export function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== "undefined";
+}
+
+/**
+ * Gzip a string with CompressionStream
+ */
+export async function gzip(body: string): Promise<ArrayBuffer> {
+  return pipe(new CompressionStream("gzip"), new TextEncoder().encode(body));
+}
+
+/**
+ * Decompress a gzip payload back into a string (DecompressionStream)
+ */
+export async function gunzip(bytes: ArrayBuffer): Promise<string> {
+  return new TextDecoder().decode(
+    await pipe(new DecompressionStream("gzip"), new Uint8Array(bytes))
+  );
+}
+
+async function pipe(
+  stream: GenericTransformStream,
+  input: Uint8Array
+): Promise<ArrayBuffer> {
+  const writer = stream.writable.getWriter();
+  // Write and read concurrently so backpressure cannot stall the stream
+  const written = writer.write(input).then(() => writer.close());
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+  }
+  await written;
+
+  const output = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output.buffer;
+}
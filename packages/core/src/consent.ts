@@ -0,0 +1,89 @@
+/**
+ * Augur Analytics SDK - Consent
+ * Tracks per-category consent and notifies the SDK when it changes
+ */
+
+export type ConsentCategory = "analytics" | "storage" | "deviceInfo";
+
+/**
+ * Consent per category: true = granted, false = denied, undefined = pending
+ */
+export type ConsentPreferences = Partial<Record<ConsentCategory, boolean>>;
+
+export type ConsentListener = (
+  current: ConsentPreferences,
+  previous: ConsentPreferences
+) => void;
+
+const CATEGORIES: ConsentCategory[] = ["analytics", "storage", "deviceInfo"];
+
+export class ConsentManager {
+  private state: ConsentPreferences;
+  private listeners: ConsentListener[] = [];
+
+  /**
+   * When consent is required, every category starts pending
+   * Otherwise every category starts granted
+   */
+  constructor(requireConsent: boolean, initial?: ConsentPreferences) {
+    const defaultValue = requireConsent ? undefined : true;
+    this.state = {};
+    for (const category of CATEGORIES) {
+      this.state[category] = defaultValue;
+    }
+    Object.assign(this.state, initial);
+  }
+
+  /**
+   * Get a copy of the current consent state
+   */
+  get(): ConsentPreferences {
+    return { ...this.state };
+  }
+
+  /**
+   * Merge new preferences into the current state
+   * Categories not mentioned keep their current value
+   */
+  update(preferences: ConsentPreferences): void {
+    const previous = this.get();
+    const next: ConsentPreferences = { ...this.state };
+
+    for (const category of CATEGORIES) {
+      if (typeof preferences[category] === "boolean") {
+        next[category] = preferences[category];
+      }
+    }
+
+    if (CATEGORIES.every((category) => next[category] === previous[category])) {
+      return;
+    }
+
+    this.state = next;
+    for (const listener of this.listeners) {
+      listener(this.get(), previous);
+    }
+  }
+
+  isGranted(category: ConsentCategory): boolean {
+    return this.state[category] === true;
+  }
+
+  isDenied(category: ConsentCategory): boolean {
+    return this.state[category] === false;
+  }
+
+  isPending(category: ConsentCategory): boolean {
+    return this.state[category] === undefined;
+  }
+
+  /**
+   * Subscribe to consent changes, returns an unsubscribe function
+   */
+  subscribe(listener: ConsentListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for Augur Analytics error tracking
+ */
+
+import {
+  ErrorReport,
+  ErrorTracker,
+  fingerprintError,
+  formatStack,
+  parseStack,
+} from "./errors";
+
+const CHROME_STACK = `TypeError: Cannot read properties of undefined (reading 'id')
+    at renderUser (https://app.example.com/static/app.js?v=12:10:15)
+    at https://app.example.com/static/vendor.js:200:3
+    at <anonymous>`;
+
+const FIREFOX_STACK = `renderUser@https://app.example.com/static/app.js:10:15
+@https://app.example.com/static/vendor.js:200:3`;
+
+describe("Error Tracking", () => {
+  describe("parseStack", () => {
+    it("should parse Chrome and Firefox frames", () => {
+      const expected = [
+        {
+          function: "renderUser",
+          file: "https://app.example.com/static/app.js?v=12",
+          line: 10,
+          column: 15,
+        },
+        {
+          function: undefined,
+          file: "https://app.example.com/static/vendor.js",
+          line: 200,
+          column: 3,
+        },
+      ];
+
+      expect(parseStack(CHROME_STACK)).toEqual(expected);
+      expect(parseStack(FIREFOX_STACK)).toEqual([
+        { ...expected[0], file: "https://app.example.com/static/app.js" },
+        expected[1],
+      ]);
+      expect(parseStack(undefined)).toEqual([]);
+    });
+
+    it("should format frames in one style", () => {
+      expect(formatStack(parseStack(FIREFOX_STACK))).toBe(
+        "at renderUser (https://app.example.com/static/app.js:10:15)\n" +
+          "at https://app.example.com/static/vendor.js:200:3"
+      );
+    });
+  });
+
+  describe("fingerprintError", () => {
+    it("should ignore numbers, query strings and columns", () => {
+      const a = fingerprintError(
+        "TypeError",
+        "Item 12 not found",
+        parseStack(CHROME_STACK)
+      );
+      const b = fingerprintError(
+        "TypeError",
+        "Item 48 not found",
+        parseStack(FIREFOX_STACK.replace(":10:15", ":10:99"))
+      );
+      const c = fingerprintError("RangeError", "Item 12 not found", []);
+
+      expect(a).toMatch(/^[0-9a-f]{8}$/);
+      expect(a).toBe(b);
+      expect(a).not.toBe(c);
+    });
+  });
+
+  describe("ErrorTracker", () => {
+    let tracker: ErrorTracker;
+    let reports: Array<ErrorReport & Record<string, any>>;
+
+    const start = (options = {}) => {
+      tracker = new ErrorTracker(options, (report, properties) =>
+        reports.push({ ...properties, ...report })
+      );
+      tracker.start();
+    };
+
+    beforeEach(() => {
+      reports = [];
+    });
+
+    afterEach(() => {
+      tracker.stop();
+    });
+
+    it("should capture uncaught errors", () => {
+      start();
+      const error = new TypeError("boom");
+      error.stack = CHROME_STACK;
+
+      window.dispatchEvent(new ErrorEvent("error", { error, message: "boom" }));
+
+      expect(reports).toEqual([
+        {
+          error_type: "TypeError",
+          error_message: "boom",
+          error_stack: formatStack(parseStack(CHROME_STACK)),
+          error_fingerprint: fingerprintError(
+            "TypeError",
+            "boom",
+            parseStack(CHROME_STACK)
+          ),
+          error_source: "onerror",
+          handled: false,
+          breadcrumbs: [],
+        },
+      ]);
+    });
+
+    it("should use the error location when there is no stack", () => {
+      start();
+
+      window.dispatchEvent(
+        new ErrorEvent("error", {
+          message: "Script error.",
+          filename: "https://cdn.example.com/widget.js",
+          lineno: 3,
+          colno: 7,
+        })
+      );
+
+      expect(reports[0]).toMatchObject({
+        error_type: "Error",
+        error_message: "Script error.",
+        error_stack: "at https://cdn.example.com/widget.js:3:7",
+      });
+    });
+
+    it("should capture unhandled rejections", () => {
+      start();
+      const event = new Event("unhandledrejection") as any;
+      event.reason = { code: 42 };
+
+      window.dispatchEvent(event);
+
+      expect(reports[0]).toMatchObject({
+        error_type: "NonError",
+        error_message: '{"code":42}',
+        error_source: "unhandledrejection",
+      });
+    });
+
+    it("should attach the last breadcrumbs and extra properties", () => {
+      start({ maxBreadcrumbs: 2 });
+      for (const event_type of ["page_view", "signup_clicked", "form_error"]) {
+        tracker.addBreadcrumb({ event_type, timestamp: "t" });
+      }
+
+      tracker.capture(new Error("failed"), "manual", { order_id: "o-1" });
+
+      expect(reports[0]).toMatchObject({
+        handled: true,
+        order_id: "o-1",
+        breadcrumbs: [
+          { event_type: "signup_clicked", timestamp: "t" },
+          { event_type: "form_error", timestamp: "t" },
+        ],
+      });
+    });
+
+    it("should rate limit each fingerprint", () => {
+      jest.useFakeTimers();
+      start({ maxPerFingerprint: 2, rateLimitWindow: 1000 });
+
+      const flaky = new Error("flaky");
+
+      for (let i = 0; i < 5; i++) {
+        tracker.capture(flaky, "manual");
+      }
+      tracker.capture(new Error("other"), "manual");
+      jest.advanceTimersByTime(1000);
+      tracker.capture(flaky, "manual");
+      jest.useRealTimers();
+
+      expect(reports.map((r) => r.error_message)).toEqual([
+        "flaky",
+        "flaky",
+        "other",
+        "flaky",
+      ]);
+      expect(reports[3].suppressed_count).toBe(3);
+    });
+
+    it("should skip ignored errors", () => {
+      start({ ignoreErrors: ["ResizeObserver", /^Network/] });
+
+      tracker.capture(
+        new Error("ResizeObserver loop limit exceeded"),
+        "manual"
+      );
+      tracker.capture(new Error("NetworkError when fetching"), "manual");
+
+      expect(reports).toHaveLength(0);
+    });
+
+    it("should stop listening on stop", () => {
+      start();
+      tracker.stop();
+
+      window.dispatchEvent(new ErrorEvent("error", { message: "late" }));
+
+      expect(reports).toHaveLength(0);
+    });
+  });
+});
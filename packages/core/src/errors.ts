@@ -0,0 +1,317 @@
+/**
+ * Augur Analytics SDK - Error Tracking
+ * Uncaught errors and unhandled rejections with normalized stacks,
+ * fingerprints, per-fingerprint rate limits and breadcrumbs
+ */
+
+export interface ErrorTrackingOptions {
+  unhandledRejections?: boolean; // Also capture unhandled promise rejections (default: true)
+  maxBreadcrumbs?: number; // Recent events attached to each error (default: 20)
+  maxPerFingerprint?: number; // Reports of the same error per rateLimitWindow (default: 5)
+  rateLimitWindow?: number; // Rate limit window in ms (default: 60000)
+  ignoreErrors?: Array<string | RegExp>; // Skip errors whose message contains or matches these
+}
+
+export type ErrorSource =
+  | "onerror"
+  | "unhandledrejection"
+  | "manual"
+  | "react_error_boundary";
+
+export interface StackFrame {
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface Breadcrumb {
+  event_type: string;
+  timestamp: string;
+  path?: string;
+}
+
+export interface ErrorReport {
+  error_type: string;
+  error_message: string;
+  error_stack?: string; // Normalized "at function (file:line:column)" lines
+  error_fingerprint: string;
+  error_source: ErrorSource;
+  handled: boolean; // false for uncaught errors and unhandled rejections
+  breadcrumbs: Breadcrumb[];
+  suppressed_count?: number; // Reports of this fingerprint dropped by the rate limit since the last one
+}
+
+const MAX_STACK_FRAMES = 50;
+
+// Frames that identify an error, shallower frames are usually framework code
+const FINGERPRINT_FRAMES = 5;
+
+// Chrome/Edge/Node: "    at fn (https://x/app.js:10:5)" or "    at https://x/app.js:10:5"
+const CHROME_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+// Firefox/Safari: "fn@https://x/app.js:10:5" or "@https://x/app.js:10:5"
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+/**
+ * Parse a Chrome, Firefox or Safari stack trace into frames
+ */
+export function parseStack(stack: string | undefined): StackFrame[] {
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split("\n")) {
+    const match = CHROME_FRAME.exec(line) || GECKO_FRAME.exec(line);
+    if (!match) {
+      continue;
+    }
+    frames.push({
+      function: match[1] || undefined,
+      file: match[2],
+      line: Number(match[3]),
+      column: Number(match[4]),
+    });
+    if (frames.length >= MAX_STACK_FRAMES) {
+      break;
+    }
+  }
+  return frames;
+}
+
+export function formatStack(frames: StackFrame[]): string {
+  return frames
+    .map((frame) => {
+      const location = `${frame.file || "<anonymous>"}:${frame.line ?? 0}:${
+        frame.column ?? 0
+      }`;
+      return frame.function
+        ? `at ${frame.function} (${location})`
+        : `at ${location}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Stable hash of an error, equal for repeats of the same error across
+ * page loads: numbers in the message, query strings and hashes in file
+ * URLs and column numbers are ignored
+ */
+export function fingerprintError(
+  type: string,
+  message: string,
+  frames: StackFrame[]
+): string {
+  const parts = [type, message.replace(/\d+/g, "<n>")];
+  for (const frame of frames.slice(0, FINGERPRINT_FRAMES)) {
+    parts.push(
+      `${frame.function || "?"}@${(frame.file || "").replace(/[?#].*$/, "")}:${
+        frame.line ?? 0
+      }`
+    );
+  }
+  return hash(parts.join("\n"));
+}
+
+/**
+ * Listens for uncaught errors and unhandled rejections, and keeps the
+ * breadcrumb trail attached to every report
+ */
+export class ErrorTracker {
+  private options: ErrorTrackingOptions;
+  private onError: (
+    report: ErrorReport,
+    properties?: Record<string, any>
+  ) => void;
+  private active = false;
+  private reporting = false;
+  private breadcrumbs: Breadcrumb[] = [];
+  private reports = new Map<
+    string,
+    { windowStart: number; count: number; suppressed: number }
+  >();
+  private handleError = (event: ErrorEvent) => {
+    this.capture(event.error ?? event.message, "onerror", undefined, {
+      file: event.filename,
+      line: event.lineno,
+      column: event.colno,
+    });
+  };
+  private handleRejection = (event: PromiseRejectionEvent) => {
+    this.capture(event.reason, "unhandledrejection");
+  };
+
+  constructor(
+    options: ErrorTrackingOptions,
+    onError: (report: ErrorReport, properties?: Record<string, any>) => void
+  ) {
+    this.options = options;
+    this.onError = onError;
+  }
+
+  start(): void {
+    if (this.active || typeof window === "undefined") {
+      return;
+    }
+    this.active = true;
+
+    window.addEventListener("error", this.handleError);
+    if (this.options.unhandledRejections !== false) {
+      window.addEventListener("unhandledrejection", this.handleRejection);
+    }
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    window.removeEventListener("error", this.handleError);
+    window.removeEventListener("unhandledrejection", this.handleRejection);
+  }
+
+  /**
+   * Remember a tracked event for the breadcrumb trail
+   */
+  addBreadcrumb(breadcrumb: Breadcrumb): void {
+    this.breadcrumbs.push(breadcrumb);
+    const max = this.options.maxBreadcrumbs ?? 20;
+    if (this.breadcrumbs.length > max) {
+      this.breadcrumbs.splice(0, this.breadcrumbs.length - max);
+    }
+  }
+
+  /**
+   * Build and report an error, unless it is ignored or rate limited.
+   * properties are passed through to onError with the report.
+   */
+  capture(
+    error: unknown,
+    source: ErrorSource,
+    properties?: Record<string, any>,
+    location?: StackFrame
+  ): void {
+    // An error thrown while reporting would report itself again
+    if (this.reporting) {
+      return;
+    }
+
+    const { type, message, stack } = describeError(error);
+    if (this.isIgnored(message)) {
+      return;
+    }
+
+    let frames = parseStack(stack);
+    // Errors thrown across origins or without an Error object have no stack
+    if (frames.length === 0 && location?.file) {
+      frames = [location];
+    }
+
+    const fingerprint = fingerprintError(type, message, frames);
+    const suppressed = this.checkRateLimit(fingerprint);
+    if (suppressed === null) {
+      return;
+    }
+
+    const report: ErrorReport = {
+      error_type: type,
+      error_message: message,
+      error_fingerprint: fingerprint,
+      error_source: source,
+      handled: source === "manual" || source === "react_error_boundary",
+      breadcrumbs: [...this.breadcrumbs],
+    };
+    if (frames.length > 0) {
+      report.error_stack = formatStack(frames);
+    }
+    if (suppressed > 0) {
+      report.suppressed_count = suppressed;
+    }
+
+    this.reporting = true;
+    try {
+      this.onError(report, properties);
+    } finally {
+      this.reporting = false;
+    }
+  }
+
+  private isIgnored(message: string): boolean {
+    return (this.options.ignoreErrors || []).some((pattern) =>
+      typeof pattern === "string"
+        ? message.includes(pattern)
+        : pattern.test(message)
+    );
+  }
+
+  /**
+   * Returns how many reports were suppressed since the last one, or null
+   * when this report is over the limit
+   */
+  private checkRateLimit(fingerprint: string): number | null {
+    const now = Date.now();
+    const windowMs = this.options.rateLimitWindow ?? 60000;
+    let state = this.reports.get(fingerprint);
+
+    if (!state || now - state.windowStart >= windowMs) {
+      state = {
+        windowStart: now,
+        count: 0,
+        suppressed: state?.suppressed || 0,
+      };
+      this.reports.set(fingerprint, state);
+    }
+
+    if (state.count >= (this.options.maxPerFingerprint ?? 5)) {
+      state.suppressed++;
+      return null;
+    }
+
+    state.count++;
+    const suppressed = state.suppressed;
+    state.suppressed = 0;
+    return suppressed;
+  }
+}
+
+function describeError(error: unknown): {
+  type: string;
+  message: string;
+  stack?: string;
+} {
+  if (error instanceof Error) {
+    return {
+      type: error.name || "Error",
+      message: error.message,
+      stack: error.stack,
+    };
+  }
+  if (typeof error === "string") {
+    return { type: "Error", message: error };
+  }
+
+  // Rejections with plain objects or other values
+  let message: string;
+  try {
+    message = JSON.stringify(error) ?? String(error);
+  } catch {
+    message = String(error);
+  }
+  return {
+    type: typeof error === "object" ? "NonError" : typeof error,
+    message,
+  };
+}
+
+/**
+ * 32-bit FNV-1a, as 8 hex characters
+ */
+export function hash(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
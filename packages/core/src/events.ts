@@ -0,0 +1,77 @@
+/**
+ * Augur Analytics SDK - Event Catalog
+ * Types that let an app's event spec constrain track() at compile time
+ *
+ * An event catalog maps event names to their properties, `undefined` for
+ * events without properties:
+ *
+ *   interface AppEvents {
+ *     signup_clicked: { plan: "free" | "pro"; source?: string };
+ *     logged_out: undefined;
+ *   }
+ *
+ *   const analytics = createAnalytics<AppEvents>(config);
+ */
+
+/**
+ * Constraint for catalogs: every event maps to an object of properties
+ * or undefined. Written as a mapped type so interfaces qualify too.
+ */
+export type EventCatalog<TEvents> = {
+  [TName in keyof TEvents]: Record<string, any> | undefined;
+};
+
+/**
+ * Catalog used when none is given: any event name with any properties
+ */
+export type UntypedEvents = Record<string, Record<string, any>>;
+
+/**
+ * Event names defined by a catalog
+ */
+export type EventName<TEvents extends EventCatalog<TEvents>> = Extract<
+  keyof TEvents,
+  string
+>;
+
+/**
+ * Properties accepted by one event of a catalog
+ */
+export type EventProperties<
+  TEvents extends EventCatalog<TEvents>,
+  TName extends EventName<TEvents>
+> = TEvents[TName];
+
+/**
+ * Remaining track() arguments for an event: properties are required
+ * unless the event has none or all of them are optional
+ */
+export type TrackArgs<TProperties> = [TProperties] extends [undefined]
+  ? [
+      properties?: undefined,
+      feedId?: string,
+      eventName?: string,
+      eventDescription?: string
+    ]
+  : {} extends TProperties
+  ? [
+      properties?: TProperties,
+      feedId?: string,
+      eventName?: string,
+      eventDescription?: string
+    ]
+  : [
+      properties: TProperties,
+      feedId?: string,
+      eventName?: string,
+      eventDescription?: string
+    ];
+
+/**
+ * Remaining trackWithFeed() arguments for an event, see TrackArgs
+ */
+export type TrackWithFeedArgs<TProperties> = [TProperties] extends [undefined]
+  ? [properties?: undefined, eventName?: string, eventDescription?: string]
+  : {} extends TProperties
+  ? [properties?: TProperties, eventName?: string, eventDescription?: string]
+  : [properties: TProperties, eventName?: string, eventDescription?: string];
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for Augur Analytics identity storage
+ */
+
+import {
+  ANONYMOUS_ID_KEY,
+  USER_KEY,
+  IdentityStore,
+  hashTraits,
+  randomUuid,
+} from "./identity";
+
+const UUID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe("Identity", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+    document.cookie = `${ANONYMOUS_ID_KEY}=; Max-Age=0; Path=/`;
+  });
+
+  it("should create version 4 UUIDs", () => {
+    expect(randomUuid()).toMatch(UUID);
+    expect(randomUuid()).not.toBe(randomUuid());
+  });
+
+  it("should create UUIDs without crypto.randomUUID", () => {
+    const randomUUID = crypto.randomUUID;
+    Object.defineProperty(crypto, "randomUUID", {
+      configurable: true,
+      value: undefined,
+    });
+    try {
+      expect(randomUuid()).toMatch(UUID);
+    } finally {
+      Object.defineProperty(crypto, "randomUUID", {
+        configurable: true,
+        value: randomUUID,
+      });
+    }
+  });
+
+  it("should hash traits regardless of key order", () => {
+    expect(hashTraits({ plan: "pro", seats: 3 })).toBe(
+      hashTraits({ seats: 3, plan: "pro" })
+    );
+    expect(hashTraits({ plan: "pro" })).not.toBe(hashTraits({ plan: "free" }));
+  });
+
+  it("should save and load the user", () => {
+    const store = new IdentityStore();
+    const user = {
+      userId: "user-1",
+      traits: { plan: "pro" },
+      groups: { "org-1": { name: "Acme" } },
+    };
+    store.saveUser(user);
+
+    expect(store.loadUser()).toEqual(user);
+
+    window.localStorage.setItem(USER_KEY, "{not json");
+    expect(store.loadUser()).toBeNull();
+  });
+
+  it("should keep the user out of cookies", () => {
+    const store = new IdentityStore({ storage: "cookie" });
+    store.saveUser({
+      userId: "user-1",
+      traits: { email: "a@b.c" },
+      groups: {},
+    });
+
+    expect(document.cookie).not.toContain(USER_KEY);
+    expect(window.localStorage.getItem(USER_KEY)).toContain("user-1");
+    expect(store.loadUser()?.userId).toBe("user-1");
+  });
+
+  it("should store values in localStorage by default", () => {
+    const store = new IdentityStore();
+    store.set(ANONYMOUS_ID_KEY, "anon-1");
+
+    expect(window.localStorage.getItem(ANONYMOUS_ID_KEY)).toBe("anon-1");
+    expect(store.get(ANONYMOUS_ID_KEY)).toBe("anon-1");
+    expect(document.cookie).not.toContain(ANONYMOUS_ID_KEY);
+  });
+
+  it("should store values in a cookie", () => {
+    const store = new IdentityStore({ storage: "cookie" });
+    store.set(ANONYMOUS_ID_KEY, "anon 1");
+
+    expect(document.cookie).toContain(`${ANONYMOUS_ID_KEY}=anon%201`);
+    expect(store.get(ANONYMOUS_ID_KEY)).toBe("anon 1");
+
+    store.remove(ANONYMOUS_ID_KEY);
+    expect(store.get(ANONYMOUS_ID_KEY)).toBeNull();
+  });
+
+  it("should read values written to the other storage", () => {
+    window.localStorage.setItem(ANONYMOUS_ID_KEY, "anon-local");
+
+    expect(new IdentityStore({ storage: "cookie" }).get(ANONYMOUS_ID_KEY)).toBe(
+      "anon-local"
+    );
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Augur Analytics SDK - Identity
+ * Durable anonymous ID, kept in localStorage or a first-party cookie, and
+ * identified user, kept in localStorage, so activity before and after
+ * identify() can be joined
+ */
+
+import { hash } from "./errors";
+
+export type IdentityStorage = "localStorage" | "cookie";
+
+export interface IdentityStoreOptions {
+  storage?: IdentityStorage; // Where identity is written (default: "localStorage")
+  cookieDomain?: string; // e.g. ".example.com" to share the ID across subdomains
+  cookieMaxAge?: number; // Cookie lifetime in seconds (default: 1 year)
+}
+
+// "traits" attaches user and group traits to every event, "hash" only a hash of them
+export type IdentityContext = "traits" | "hash";
+
+export interface StoredUser {
+  userId?: string;
+  traits: Record<string, any>;
+  groups: Record<string, Record<string, any>>; // Traits by group ID
+}
+
+export const ANONYMOUS_ID_KEY = "augur_anonymous_id";
+export const USER_KEY = "augur_user";
+
+const ONE_YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * A random RFC 4122 version 4 UUID, from the Web Crypto API where available
+ */
+export function randomUuid(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"));
+  return [
+    hex.slice(0, 4).join(""),
+    hex.slice(4, 6).join(""),
+    hex.slice(6, 8).join(""),
+    hex.slice(8, 10).join(""),
+    hex.slice(10).join(""),
+  ].join("-");
+}
+
+/**
+ * Hash of traits that is stable regardless of key order, so the backend
+ * can tell when they changed without receiving them on every event
+ */
+export function hashTraits(traits: unknown): string {
+  return hash(stableStringify(traits));
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Reads and writes identity values in the configured storage. Reads fall
+ * back to the other storage, so switching between localStorage and cookies
+ * keeps existing IDs.
+ */
+export class IdentityStore {
+  private options: IdentityStoreOptions;
+
+  constructor(options: IdentityStoreOptions = {}) {
+    this.options = options;
+  }
+
+  get(key: string): string | null {
+    const cookieFirst = this.options.storage === "cookie";
+    const first = cookieFirst ? this.readCookie(key) : this.readLocal(key);
+    if (first !== null) {
+      return first;
+    }
+    return cookieFirst ? this.readLocal(key) : this.readCookie(key);
+  }
+
+  set(key: string, value: string): void {
+    if (this.options.storage === "cookie") {
+      this.writeCookie(
+        key,
+        value,
+        this.options.cookieMaxAge ?? ONE_YEAR_SECONDS
+      );
+    } else {
+      this.writeLocal(key, value);
+    }
+  }
+
+  remove(key: string): void {
+    try {
+      window.localStorage?.removeItem(key);
+    } catch {
+      // Storage blocked, nothing was stored
+    }
+    if (this.readCookie(key) !== null) {
+      this.writeCookie(key, "", 0);
+    }
+  }
+
+  /**
+   * The persisted user, or null when none is stored or it is malformed
+   * The user ID and traits stay in localStorage even with cookie storage,
+   * so they are never sent to the server with every request
+   */
+  loadUser(): StoredUser | null {
+    try {
+      const stored = JSON.parse(this.readLocal(USER_KEY) || "null");
+      if (!stored || typeof stored !== "object") {
+        return null;
+      }
+      return {
+        userId: typeof stored.userId === "string" ? stored.userId : undefined,
+        traits: stored.traits || {},
+        groups: stored.groups || {},
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  saveUser(user: StoredUser): void {
+    this.writeLocal(USER_KEY, JSON.stringify(user));
+  }
+
+  private writeLocal(key: string, value: string): void {
+    try {
+      window.localStorage.setItem(key, value);
+    } catch {
+      // Storage full or blocked, the value lives for this page only
+    }
+  }
+
+  private readLocal(key: string): string | null {
+    try {
+      return typeof window !== "undefined" && window.localStorage
+        ? window.localStorage.getItem(key)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readCookie(key: string): string | null {
+    if (typeof document === "undefined") {
+      return null;
+    }
+    for (const cookie of document.cookie.split(";")) {
+      const [name, ...value] = cookie.trim().split("=");
+      if (name === key) {
+        return decodeURIComponent(value.join("="));
+      }
+    }
+    return null;
+  }
+
+  private writeCookie(key: string, value: string, maxAge: number): void {
+    if (typeof document === "undefined") {
+      return;
+    }
+    const attributes = [
+      `${key}=${encodeURIComponent(value)}`,
+      `Max-Age=${maxAge}`,
+      "Path=/",
+      "SameSite=Lax",
+    ];
+    if (this.options.cookieDomain) {
+      attributes.push(`Domain=${this.options.cookieDomain}`);
+    }
+    if (window.location.protocol === "https:") {
+      attributes.push("Secure");
+    }
+    document.cookie = attributes.join("; ");
+  }
+}
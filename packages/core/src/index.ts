@@ -3,11 +3,175 @@
  * Main entry point for the core analytics library
  */
 
-export { default as Analytics, createAnalytics } from "./analytics";
+export {
+  default as Analytics,
+  createAnalytics,
+  getAnalytics,
+} from "./analytics";
 export type {
   AugurConfig,
   AugurEvent,
   AugurPageEvent,
   AugurIdentifyEvent,
   DeviceInfo,
+  DeliveryInfo,
+  DeliveryFailure,
+  DeliveredListener,
+  FailedListener,
 } from "./analytics";
+export type {
+  EventCatalog,
+  UntypedEvents,
+  EventName,
+  EventProperties,
+  TrackArgs,
+  TrackWithFeedArgs,
+} from "./events";
+export { Autocapture, selectorPath } from "./autocapture";
+export type {
+  AutocaptureOptions,
+  AutocaptureInteraction,
+  CapturedInteraction,
+} from "./autocapture";
+export {
+  MAX_BEACON_BYTES,
+  DEFAULT_MAX_BATCH_BYTES,
+  splitBatches,
+  fitsInBatch,
+  truncateEvent,
+} from "./batching";
+export type { OversizedEventMode } from "./batching";
+export {
+  createEnvelope,
+  expandEnvelope,
+  encodeBatch,
+  decodeBatch,
+  isCompressionSupported,
+  gzip,
+  gunzip,
+} from "./compression";
+export type { BatchFormat, BatchEnvelope } from "./compression";
+export {
+  ErrorTracker,
+  parseStack,
+  formatStack,
+  fingerprintError,
+} from "./errors";
+export type {
+  ErrorTrackingOptions,
+  ErrorSource,
+  ErrorReport,
+  StackFrame,
+  Breadcrumb,
+} from "./errors";
+export {
+  IdentityStore,
+  randomUuid,
+  hashTraits,
+  ANONYMOUS_ID_KEY,
+  USER_KEY,
+} from "./identity";
+export type {
+  IdentityStorage,
+  IdentityStoreOptions,
+  IdentityContext,
+  StoredUser,
+} from "./identity";
+export { ConsentManager } from "./consent";
+export type {
+  ConsentCategory,
+  ConsentPreferences,
+  ConsentListener,
+} from "./consent";
+export {
+  readGlobalPrivacyControl,
+  mapTcfConsent,
+  watchTcfConsent,
+} from "./privacy";
+export type { PrivacySignalOptions, TcfOptions, TcfData } from "./privacy";
+export {
+  NetworkInstrumentation,
+  urlPattern,
+  matchesUrlRule,
+  matchesOrigin,
+  sendUncaptured,
+} from "./network";
+export type {
+  NetworkCaptureOptions,
+  NetworkInstrumentationOptions,
+  NetworkRequest,
+  UrlRule,
+} from "./network";
+export { PageviewTracker } from "./pageviews";
+export type { AutoPageviewOptions, PageviewDetails } from "./pageviews";
+export { PerformanceMonitor, rateMetric } from "./performance";
+export type {
+  PerformanceOptions,
+  PerformanceMetric,
+  WebVitalName,
+  MetricRating,
+} from "./performance";
+export { PluginPipeline } from "./plugins";
+export type { AugurPlugin, PluginEventResult } from "./plugins";
+export {
+  createSession,
+  parseSession,
+  serializeSession,
+  readCampaign,
+  sessionExpiry,
+} from "./session";
+export type {
+  SessionInfo,
+  SessionChangeListener,
+  SessionStartReason,
+  SessionEndReason,
+  SessionLimits,
+  CampaignParams,
+} from "./session";
+export {
+  LocalStorageAdapter,
+  IndexedDBStorageAdapter,
+  MemoryStorageAdapter,
+  estimateBytes,
+  selectEvictions,
+} from "./storage";
+export type { StorageAdapter, StorageLimits, StoredEvent } from "./storage";
+export { TabCoordinator } from "./tabs";
+export type { TabMessage, TabCoordinatorOptions } from "./tabs";
+export {
+  compileTrackingPlan,
+  validateEvent,
+  formatViolations,
+} from "./validation";
+export type {
+  TrackingPlan,
+  EventSchema,
+  PropertySchema,
+  SchemaType,
+  SchemaValidationMode,
+  SchemaViolation,
+} from "./validation";
+export {
+  createTraceparent,
+  traceHeaders,
+  randomHex,
+  BAGGAGE_SESSION_KEY,
+} from "./tracing";
+export type { TraceHeaderOptions } from "./tracing";
+export {
+  BeaconTransport,
+  FetchTransport,
+  XHRTransport,
+  MemoryTransport,
+  FallbackTransport,
+  createDefaultTransport,
+  createDeliveryTransports,
+} from "./transport";
+export type {
+  DeliveryMode,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+  XHRTransportOptions,
+} from "./transport";
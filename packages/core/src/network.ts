@@ -0,0 +1,413 @@
+/**
+ * Augur Analytics SDK - Network Instrumentation
+ * fetch and XMLHttpRequest wrappers for session header injection and
+ * http_request telemetry
+ */
+
+export type UrlRule = string | RegExp;
+
+export interface NetworkCaptureOptions {
+  allowUrls?: UrlRule[]; // Only capture URLs containing or matching these (default: all)
+  denyUrls?: UrlRule[]; // Never capture URLs containing or matching these
+  sampleRate?: number; // Share of requests captured, from 0 to 1 (default: 1)
+  xhr?: boolean; // Also capture XMLHttpRequest telemetry (default: true)
+}
+
+export interface NetworkRequest {
+  initiator: "fetch" | "xhr";
+  method: string;
+  url: string; // Without query string and hash
+  host: string;
+  url_pattern: string; // Path with ids replaced, e.g. /api/users/:id
+  status: number; // 0 when the request failed without a response
+  duration: number; // Milliseconds until the response headers (fetch) or load end (XHR)
+  response_size?: number; // Content-Length in bytes, when exposed
+  failed?: boolean; // Network error, abort or CORS rejection
+}
+
+export interface NetworkInstrumentationOptions {
+  headers?: (url: URL, existing: Headers) => Record<string, string> | undefined; // Appended to fetch and XHR requests
+  capture?: NetworkCaptureOptions;
+  onRequest?: (request: NetworkRequest) => void;
+  ignore?: (url: URL) => boolean; // Requests never captured
+}
+
+// Path segments that are ids rather than routes
+const ID_SEGMENT =
+  /^(?:\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,}|(?=[A-Za-z_-]*\d)[A-Za-z0-9_-]{20,})$/i;
+
+/**
+ * Replace numeric, UUID, hash and token-like segments with :id
+ * "/api/users/42/orders/9f1c...e2" -> "/api/users/:id/orders/:id"
+ */
+export function urlPattern(pathname: string): string {
+  return pathname
+    .split("/")
+    .map((segment) => (ID_SEGMENT.test(segment) ? ":id" : segment))
+    .join("/");
+}
+
+export function matchesUrlRule(url: string, rules: UrlRule[]): boolean {
+  return rules.some((rule) =>
+    typeof rule === "string" ? url.includes(rule) : rule.test(url)
+  );
+}
+
+/**
+ * Does the origin of url match one of the origins, compared exactly for
+ * strings ("https://api.example.com") and tested for RegExps. "*" matches
+ * every origin.
+ */
+export function matchesOrigin(url: URL, origins: UrlRule[]): boolean {
+  return origins.some((origin) =>
+    typeof origin === "string"
+      ? origin === "*" || origin.replace(/\/+$/, "") === url.origin
+      : origin.test(url.origin)
+  );
+}
+
+// Nesting depth of sendUncaptured() calls
+let uncapturedDepth = 0;
+
+/**
+ * Run send with the requests it starts marked as the SDK's own, so they
+ * are never captured whatever their URL, e.g. when a custom transport
+ * posts through a proxy. Only requests started synchronously are marked.
+ */
+export function sendUncaptured<T>(send: () => T): T {
+  uncapturedDepth++;
+  try {
+    return send();
+  } finally {
+    uncapturedDepth--;
+  }
+}
+
+interface XhrRequest {
+  method: string;
+  url: URL | null;
+  headers: Headers;
+}
+
+/**
+ * Instruments window.fetch and XMLHttpRequest while started. All started
+ * instances share one fetch and one XHR wrapper, installed by the first
+ * and removed by the last to stop (unless another library wrapped them
+ * after us), so several SDK instances never stack wrappers.
+ */
+export class NetworkInstrumentation {
+  private static active: NetworkInstrumentation[] = [];
+  private static fetchPatch?: { original: typeof fetch; wrapper: typeof fetch };
+  private static xhrPatch?: {
+    open: [XMLHttpRequest["open"], XMLHttpRequest["open"]];
+    send: [XMLHttpRequest["send"], XMLHttpRequest["send"]];
+    setRequestHeader: [
+      XMLHttpRequest["setRequestHeader"],
+      XMLHttpRequest["setRequestHeader"]
+    ];
+  };
+
+  private options: NetworkInstrumentationOptions;
+
+  constructor(options: NetworkInstrumentationOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    const active = NetworkInstrumentation.active;
+    if (active.includes(this) || typeof window === "undefined") {
+      return;
+    }
+    active.push(this);
+
+    if (
+      !NetworkInstrumentation.fetchPatch &&
+      typeof window.fetch === "function"
+    ) {
+      NetworkInstrumentation.patchFetch();
+    }
+    if (
+      !NetworkInstrumentation.xhrPatch &&
+      this.usesXhr() &&
+      typeof XMLHttpRequest !== "undefined"
+    ) {
+      NetworkInstrumentation.patchXhr();
+    }
+  }
+
+  stop(): void {
+    const active = NetworkInstrumentation.active;
+    if (!active.includes(this)) {
+      return;
+    }
+    active.splice(active.indexOf(this), 1);
+
+    if (active.length === 0) {
+      NetworkInstrumentation.unpatch();
+    }
+  }
+
+  private usesXhr(): boolean {
+    return (
+      !!this.options.headers ||
+      (!!this.options.onRequest && this.options.capture?.xhr !== false)
+    );
+  }
+
+  private static patchFetch(): void {
+    const original = window.fetch;
+    const wrapper = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const instances = [...NetworkInstrumentation.active];
+      const target = resolveUrl(requestUrl(input));
+      if (!target) {
+        return original(input, init);
+      }
+
+      if (instances.some((instance) => instance.options.headers)) {
+        // init.headers replace the headers of a Request input
+        const merged = new Headers(
+          init?.headers ??
+            (typeof input === "object" && "headers" in input
+              ? input.headers
+              : undefined)
+        );
+        let changed = false;
+        for (const instance of instances) {
+          const headers = instance.options.headers?.(target, merged);
+          for (const name of Object.keys(headers || {})) {
+            merged.append(name, headers![name]);
+            changed = true;
+          }
+        }
+        if (changed) {
+          init = { ...init, headers: merged };
+        }
+      }
+
+      const capturing =
+        uncapturedDepth > 0
+          ? []
+          : instances.filter((instance) => instance.shouldCapture(target));
+      if (capturing.length === 0) {
+        return original(input, init);
+      }
+
+      const method = (
+        init?.method ||
+        (typeof input === "object" && "method" in input ? input.method : "GET")
+      ).toUpperCase();
+      const started = now();
+
+      try {
+        const response = await original(input, init);
+        for (const instance of capturing) {
+          instance.report("fetch", method, target, started, {
+            status: response.status,
+            response_size: contentLength(
+              response.headers?.get("Content-Length")
+            ),
+          });
+        }
+        return response;
+      } catch (error) {
+        for (const instance of capturing) {
+          instance.report("fetch", method, target, started, {
+            status: 0,
+            failed: true,
+          });
+        }
+        throw error;
+      }
+    };
+
+    NetworkInstrumentation.fetchPatch = { original, wrapper };
+    window.fetch = wrapper;
+  }
+
+  private static patchXhr(): void {
+    const proto = XMLHttpRequest.prototype;
+    const requests = new WeakMap<XMLHttpRequest, XhrRequest>();
+
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const originalSetRequestHeader = proto.setRequestHeader;
+
+    // Typed as the widest overload, open(method, url) passes through as is
+    const open = function (
+      this: XMLHttpRequest,
+      ...args: Parameters<XMLHttpRequest["open"]>
+    ) {
+      const [method, url] = args;
+      requests.set(this, {
+        method: method.toUpperCase(),
+        url: resolveUrl(String(url)),
+        headers: new Headers(),
+      });
+      return originalOpen.apply(this, args);
+    } as XMLHttpRequest["open"];
+
+    // XHR headers cannot be read back, remember them for the headers hooks
+    const setRequestHeader = function (
+      this: XMLHttpRequest,
+      name: string,
+      value: string
+    ) {
+      try {
+        requests.get(this)?.headers.append(name, value);
+      } catch {
+        // Names Headers rejects are rejected by the XHR below as well
+      }
+      return originalSetRequestHeader.call(this, name, value);
+    };
+
+    const send = function (
+      this: XMLHttpRequest,
+      body?: Document | XMLHttpRequestBodyInit | null
+    ) {
+      const request = requests.get(this);
+      const target = request?.url;
+      if (!request || !target) {
+        return originalSend.call(this, body);
+      }
+
+      const instances = [...NetworkInstrumentation.active];
+      for (const instance of instances) {
+        const headers = instance.options.headers?.(target, request.headers);
+        for (const name of Object.keys(headers || {})) {
+          // Combined with any value already set, like Headers.append
+          originalSetRequestHeader.call(this, name, headers![name]);
+          request.headers.append(name, headers![name]);
+        }
+      }
+
+      const capturing = instances.filter(
+        (instance) =>
+          uncapturedDepth === 0 &&
+          instance.options.capture?.xhr !== false &&
+          instance.shouldCapture(target)
+      );
+      if (capturing.length > 0) {
+        const started = now();
+        this.addEventListener("loadend", () => {
+          for (const instance of capturing) {
+            instance.report("xhr", request.method, target, started, {
+              status: this.status,
+              response_size: contentLength(
+                this.getResponseHeader("Content-Length")
+              ),
+              failed: this.status === 0 || undefined,
+            });
+          }
+        });
+      }
+      return originalSend.call(this, body);
+    };
+
+    NetworkInstrumentation.xhrPatch = {
+      open: [originalOpen, open],
+      send: [originalSend, send],
+      setRequestHeader: [originalSetRequestHeader, setRequestHeader],
+    };
+    proto.open = open;
+    proto.send = send;
+    proto.setRequestHeader = setRequestHeader;
+  }
+
+  private static unpatch(): void {
+    const fetchPatch = NetworkInstrumentation.fetchPatch;
+    if (fetchPatch && window.fetch === fetchPatch.wrapper) {
+      window.fetch = fetchPatch.original;
+    }
+    NetworkInstrumentation.fetchPatch = undefined;
+
+    const xhrPatch = NetworkInstrumentation.xhrPatch;
+    if (xhrPatch) {
+      const proto: Pick<XMLHttpRequest, "open" | "send" | "setRequestHeader"> =
+        XMLHttpRequest.prototype;
+      if (proto.open === xhrPatch.open[1]) {
+        proto.open = xhrPatch.open[0];
+      }
+      if (proto.send === xhrPatch.send[1]) {
+        proto.send = xhrPatch.send[0];
+      }
+      if (proto.setRequestHeader === xhrPatch.setRequestHeader[1]) {
+        proto.setRequestHeader = xhrPatch.setRequestHeader[0];
+      }
+    }
+    NetworkInstrumentation.xhrPatch = undefined;
+  }
+
+  /**
+   * Whether this request should be captured: allow and deny rules,
+   * ignore, then sampling
+   */
+  private shouldCapture(url: URL): boolean {
+    const capture = this.options.capture;
+    if (!this.options.onRequest || !capture) {
+      return false;
+    }
+
+    if (this.options.ignore?.(url)) {
+      return false;
+    }
+    const href = url.href;
+    if (capture.allowUrls && !matchesUrlRule(href, capture.allowUrls)) {
+      return false;
+    }
+    if (capture.denyUrls && matchesUrlRule(href, capture.denyUrls)) {
+      return false;
+    }
+    return Math.random() < (capture.sampleRate ?? 1);
+  }
+
+  private report(
+    initiator: NetworkRequest["initiator"],
+    method: string,
+    url: URL,
+    started: number,
+    result: Pick<NetworkRequest, "status" | "response_size" | "failed">
+  ): void {
+    const request: NetworkRequest = {
+      initiator,
+      method,
+      url: `${url.origin}${url.pathname}`,
+      host: url.host,
+      url_pattern: urlPattern(url.pathname),
+      duration: Math.round(now() - started),
+      ...result,
+    };
+    if (request.response_size === undefined) {
+      delete request.response_size;
+    }
+    if (!request.failed) {
+      delete request.failed;
+    }
+    this.options.onRequest?.(request);
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === "string") {
+    return input;
+  }
+  return "url" in input ? input.url : input.href;
+}
+
+function resolveUrl(raw: string): URL | null {
+  try {
+    return new URL(raw, window.location.href);
+  } catch {
+    return null;
+  }
+}
+
+function contentLength(header: string | null | undefined): number | undefined {
+  const length = header ? parseInt(header, 10) : NaN;
+  return Number.isNaN(length) ? undefined : length;
+}
+
+function now(): number {
+  return typeof performance !== "undefined" && performance.now
+    ? performance.now()
+    : Date.now();
+}
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for Augur Analytics automatic pageviews
+ */
+
+import { PageviewDetails, PageviewTracker } from "./pageviews";
+
+describe("PageviewTracker", () => {
+  let tracker: PageviewTracker;
+  let pageviews: PageviewDetails[];
+
+  const start = (options = {}) => {
+    tracker = new PageviewTracker(options, (details) =>
+      pageviews.push(details)
+    );
+    tracker.start();
+  };
+
+  const navigate = (url: string, method: "pushState" | "replaceState") => {
+    history[method]({}, "", url);
+    jest.advanceTimersByTime(0);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    history.replaceState({}, "", "/");
+    pageviews = [];
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    jest.useRealTimers();
+  });
+
+  it("should track the current page on start", () => {
+    start();
+
+    expect(pageviews).toEqual([
+      {
+        path: "/",
+        url: "http://localhost/",
+        title: document.title,
+        referrer: document.referrer,
+      },
+    ]);
+  });
+
+  it("should track pushState navigations with the previous page", () => {
+    start();
+
+    navigate("/pricing?plan=pro", "pushState");
+
+    expect(pageviews[1]).toEqual(
+      expect.objectContaining({
+        path: "/pricing",
+        url: "http://localhost/pricing?plan=pro",
+        referrer: "http://localhost/",
+        previous_path: "/",
+      })
+    );
+  });
+
+  it("should track replaceState and popstate navigations", () => {
+    start();
+
+    navigate("/a", "replaceState");
+    // Back/forward changes the URL without going through history methods
+    History.prototype.replaceState.call(history, {}, "", "/b");
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    jest.advanceTimersByTime(0);
+
+    expect(pageviews.map((p) => p.path)).toEqual(["/", "/a", "/b"]);
+  });
+
+  it("should dedupe navigations to the same URL", () => {
+    start();
+
+    navigate("/", "pushState");
+    navigate("/", "replaceState");
+
+    expect(pageviews).toHaveLength(1);
+  });
+
+  it("should ignore hash changes unless enabled", () => {
+    start();
+    navigate("/#section", "pushState");
+    expect(pageviews).toHaveLength(1);
+    tracker.stop();
+
+    pageviews = [];
+    start({ initial: false, hashChanges: true });
+    navigate("/#other", "pushState");
+    expect(pageviews.map((p) => p.url)).toEqual(["http://localhost/#other"]);
+  });
+
+  it("should restore the history methods on stop", () => {
+    const pushState = history.pushState;
+    start();
+    expect(history.pushState).not.toBe(pushState);
+
+    tracker.stop();
+    navigate("/after-stop", "pushState");
+
+    expect(history.pushState).toBe(pushState);
+    expect(pageviews).toHaveLength(1);
+  });
+});
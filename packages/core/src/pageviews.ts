@@ -0,0 +1,159 @@
+/**
+ * Augur Analytics SDK - Automatic Pageviews
+ * Detect single-page app navigations through the History API
+ */
+
+export interface AutoPageviewOptions {
+  initial?: boolean; // Track the current page when tracking starts (default: true)
+  hashChanges?: boolean; // Count #hash changes as navigations (default: false)
+}
+
+export interface PageviewDetails {
+  path: string;
+  url: string;
+  title: string;
+  referrer: string; // document.referrer for the landing page, then the previous URL
+  previous_path?: string; // Path of the previous page view, none for the landing page
+}
+
+type HistoryMethod = typeof history.pushState;
+
+/**
+ * Calls onPageview whenever the URL changes through history.pushState,
+ * history.replaceState, back/forward navigation (popstate) or, optionally,
+ * hash changes. Navigations to the URL of the last page view are ignored.
+ */
+export class PageviewTracker {
+  private options: AutoPageviewOptions;
+  private onPageview: (details: PageviewDetails) => void;
+  private active = false;
+  private lastUrl?: string;
+  private lastPath?: string;
+  private lastHref?: string;
+  private pending?: ReturnType<typeof setTimeout>;
+  private originals?: { pushState: HistoryMethod; replaceState: HistoryMethod };
+  private wrappers?: { pushState: HistoryMethod; replaceState: HistoryMethod };
+  private handleNavigation = () => this.schedule();
+
+  constructor(
+    options: AutoPageviewOptions,
+    onPageview: (details: PageviewDetails) => void
+  ) {
+    this.options = options;
+    this.onPageview = onPageview;
+  }
+
+  start(): void {
+    if (this.active || typeof window === "undefined") {
+      return;
+    }
+    this.active = true;
+
+    this.originals = {
+      pushState: history.pushState,
+      replaceState: history.replaceState,
+    };
+    this.wrappers = {
+      pushState: this.wrap(history.pushState),
+      replaceState: this.wrap(history.replaceState),
+    };
+    history.pushState = this.wrappers.pushState;
+    history.replaceState = this.wrappers.replaceState;
+
+    window.addEventListener("popstate", this.handleNavigation);
+    if (this.options.hashChanges) {
+      window.addEventListener("hashchange", this.handleNavigation);
+    }
+
+    if (this.options.initial !== false) {
+      this.check();
+    } else {
+      this.remember();
+    }
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    // Only restore what we installed; if another library wrapped history
+    // after us, our wrappers stay in its chain and pass straight through
+    if (this.originals && this.wrappers) {
+      if (history.pushState === this.wrappers.pushState) {
+        history.pushState = this.originals.pushState;
+      }
+      if (history.replaceState === this.wrappers.replaceState) {
+        history.replaceState = this.originals.replaceState;
+      }
+    }
+
+    window.removeEventListener("popstate", this.handleNavigation);
+    window.removeEventListener("hashchange", this.handleNavigation);
+    if (this.pending) {
+      clearTimeout(this.pending);
+      this.pending = undefined;
+    }
+  }
+
+  private wrap(original: HistoryMethod): HistoryMethod {
+    const tracker = this;
+    return function (this: History, ...args: Parameters<HistoryMethod>) {
+      const result = original.apply(this, args);
+      if (tracker.active) {
+        tracker.schedule();
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Wait a tick so routers can update document.title after navigating
+   */
+  private schedule(): void {
+    if (this.pending) {
+      clearTimeout(this.pending);
+    }
+    this.pending = setTimeout(() => {
+      this.pending = undefined;
+      this.check();
+    }, 0);
+  }
+
+  private check(): void {
+    const url = this.currentUrl();
+    if (url === this.lastUrl) {
+      return;
+    }
+
+    const details: PageviewDetails = {
+      path: window.location.pathname,
+      url: window.location.href,
+      title: document.title,
+      referrer: this.lastHref ?? document.referrer,
+    };
+    if (this.lastPath !== undefined) {
+      details.previous_path = this.lastPath;
+    }
+
+    this.remember();
+    this.onPageview(details);
+  }
+
+  private remember(): void {
+    this.lastUrl = this.currentUrl();
+    this.lastPath = window.location.pathname;
+    this.lastHref = window.location.href;
+  }
+
+  /**
+   * URL used to dedupe navigations, without the hash unless hash changes count
+   */
+  private currentUrl(): string {
+    const { href, hash } = window.location;
+    return this.options.hashChanges || !hash
+      ? href
+      : href.slice(0, -hash.length);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for Augur Analytics performance collection
+ */
+
+import {
+  PerformanceMetric,
+  PerformanceMonitor,
+  rateMetric,
+} from "./performance";
+
+type Entry = Record<string, any>;
+
+class FakeObserver {
+  static supportedEntryTypes = [
+    "paint",
+    "largest-contentful-paint",
+    "layout-shift",
+    "event",
+    "first-input",
+  ];
+  static instances: FakeObserver[] = [];
+
+  type?: string;
+  pending: Entry[] = [];
+
+  constructor(private callback: (list: { getEntries(): Entry[] }) => void) {
+    FakeObserver.instances.push(this);
+  }
+
+  observe(options: { type: string }) {
+    this.type = options.type;
+  }
+
+  disconnect() {
+    FakeObserver.instances = FakeObserver.instances.filter((o) => o !== this);
+  }
+
+  takeRecords() {
+    const records = this.pending;
+    this.pending = [];
+    return records;
+  }
+
+  static emit(type: string, ...entries: Entry[]) {
+    for (const observer of FakeObserver.instances) {
+      if (observer.type === type) {
+        observer.callback({
+          getEntries: () =>
+            entries.map((entry) => ({ entryType: type, ...entry })),
+        });
+      }
+    }
+  }
+}
+
+const navigation = {
+  type: "navigate",
+  redirectStart: 0,
+  redirectEnd: 0,
+  domainLookupStart: 10,
+  domainLookupEnd: 30,
+  connectStart: 30,
+  secureConnectionStart: 40,
+  connectEnd: 70,
+  requestStart: 75,
+  responseStart: 250.4,
+  responseEnd: 300,
+  domInteractive: 600,
+  domContentLoadedEventEnd: 700,
+  loadEventEnd: 1200,
+  transferSize: 5120,
+};
+
+describe("PerformanceMonitor", () => {
+  let monitor: PerformanceMonitor;
+  let metrics: PerformanceMetric[];
+
+  const setVisibility = (state: "visible" | "hidden") => {
+    Object.defineProperty(document, "visibilityState", {
+      value: state,
+      configurable: true,
+    });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  const byName = (name: string) => metrics.filter((m) => m.name === name);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    metrics = [];
+    FakeObserver.instances = [];
+    (global as any).PerformanceObserver = FakeObserver;
+    performance.getEntriesByType = jest.fn((type: string) =>
+      type === "navigation" ? [navigation] : []
+    ) as any;
+    monitor = new PerformanceMonitor({}, (metric) => metrics.push(metric));
+    monitor.start();
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    setVisibility("visible");
+    delete (global as any).PerformanceObserver;
+    jest.useRealTimers();
+  });
+
+  it("should report TTFB and navigation timing after load", () => {
+    jest.runAllTimers();
+
+    expect(byName("TTFB")).toEqual([
+      {
+        name: "TTFB",
+        value: 250,
+        properties: { metric_rating: "good", metric_delta: 250 },
+      },
+    ]);
+    expect(byName("navigation_timing")[0]).toEqual({
+      name: "navigation_timing",
+      value: 1200,
+      properties: {
+        navigation_type: "navigate",
+        redirect_time: 0,
+        dns_time: 20,
+        connect_time: 40,
+        tls_time: 30,
+        request_time: 175,
+        response_time: 50,
+        dom_interactive: 600,
+        dom_content_loaded: 700,
+        load_time: 1200,
+        transfer_size: 5120,
+      },
+    });
+  });
+
+  it("should report FCP once", () => {
+    FakeObserver.emit("paint", { name: "first-paint", startTime: 900 });
+    FakeObserver.emit("paint", {
+      name: "first-contentful-paint",
+      startTime: 1000,
+    });
+
+    expect(byName("FCP")).toEqual([
+      {
+        name: "FCP",
+        value: 1000,
+        properties: { metric_rating: "good", metric_delta: 1000 },
+      },
+    ]);
+  });
+
+  it("should report the last LCP candidate on the first input", () => {
+    FakeObserver.emit("largest-contentful-paint", { startTime: 1500 });
+    FakeObserver.emit("largest-contentful-paint", { startTime: 4200 });
+    window.dispatchEvent(new Event("keydown"));
+    FakeObserver.emit("largest-contentful-paint", { startTime: 5000 });
+    setVisibility("hidden");
+
+    expect(byName("LCP")).toHaveLength(1);
+    expect(byName("LCP")[0]).toMatchObject({
+      value: 4200,
+      properties: { metric_rating: "poor" },
+    });
+  });
+
+  it("should report the largest layout shift window when hidden", () => {
+    FakeObserver.emit(
+      "layout-shift",
+      { value: 0.05, startTime: 100, hadRecentInput: false },
+      { value: 0.04, startTime: 600, hadRecentInput: false },
+      { value: 0.5, startTime: 900, hadRecentInput: true },
+      { value: 0.02, startTime: 3000, hadRecentInput: false }
+    );
+    setVisibility("hidden");
+
+    expect(byName("CLS")).toEqual([
+      {
+        name: "CLS",
+        value: 0.09,
+        properties: { metric_rating: "good", metric_delta: 0.09 },
+      },
+    ]);
+
+    // Reported again only when the value changed
+    setVisibility("visible");
+    setVisibility("hidden");
+    FakeObserver.instances
+      .find((o) => o.type === "layout-shift")!
+      .pending.push({
+        entryType: "layout-shift",
+        value: 0.1,
+        startTime: 3200,
+        hadRecentInput: false,
+      });
+    setVisibility("visible");
+    setVisibility("hidden");
+
+    expect(byName("CLS").map((m) => m.value)).toEqual([0.09, 0.12]);
+    expect(byName("CLS")[1].properties.metric_delta).toBe(0.03);
+  });
+
+  it("should report INP as the slowest interaction", () => {
+    FakeObserver.emit(
+      "event",
+      { interactionId: 1, duration: 80 },
+      { interactionId: 1, duration: 120 },
+      { interactionId: 2, duration: 240 },
+      { interactionId: 0, duration: 900 }
+    );
+    window.dispatchEvent(new Event("pagehide"));
+
+    expect(byName("INP")[0]).toMatchObject({
+      value: 240,
+      properties: { metric_rating: "needs-improvement" },
+    });
+  });
+
+  it("should skip metrics the browser does not support", () => {
+    monitor.stop();
+    metrics = [];
+    delete (global as any).PerformanceObserver;
+
+    monitor = new PerformanceMonitor({ navigationTiming: false }, (metric) =>
+      metrics.push(metric)
+    );
+    monitor.start();
+    jest.runAllTimers();
+    setVisibility("hidden");
+
+    expect(metrics.map((m) => m.name)).toEqual(["TTFB"]);
+  });
+
+  it("should rate metrics against the Web Vitals thresholds", () => {
+    expect(rateMetric("LCP", 2500)).toBe("good");
+    expect(rateMetric("INP", 201)).toBe("needs-improvement");
+    expect(rateMetric("CLS", 0.3)).toBe("poor");
+  });
+});
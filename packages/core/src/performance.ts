@@ -0,0 +1,345 @@
+/**
+ * Augur Analytics SDK - Performance
+ * Core Web Vitals and Navigation Timing collected with PerformanceObserver
+ */
+
+export type WebVitalName = "LCP" | "CLS" | "INP" | "FCP" | "TTFB";
+export type MetricRating = "good" | "needs-improvement" | "poor";
+
+export interface PerformanceOptions {
+  webVitals?: boolean; // Report LCP, CLS, INP, FCP and TTFB (default: true)
+  navigationTiming?: boolean; // Report the navigation_timing breakdown after load (default: true)
+}
+
+export interface PerformanceMetric {
+  name: WebVitalName | "navigation_timing";
+  value: number; // Milliseconds, except CLS which is unitless
+  properties: Record<string, any>;
+}
+
+// [good, poor] boundaries from https://web.dev/articles/vitals
+const THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
+
+// Interactions faster than this are not reported by the Event Timing API
+const INP_DURATION_THRESHOLD = 40;
+
+// Layout shifts are grouped into windows of at most 5s, with gaps under 1s
+const CLS_WINDOW_GAP = 1000;
+const CLS_WINDOW_MAX = 5000;
+
+export function rateMetric(name: WebVitalName, value: number): MetricRating {
+  const [good, poor] = THRESHOLDS[name];
+  return value <= good ? "good" : value <= poor ? "needs-improvement" : "poor";
+}
+
+/**
+ * Observes paint, layout shift and interaction entries and reports each
+ * Web Vital once its value is final: FCP and TTFB as soon as they are
+ * known, LCP on the first input or when the page is hidden, CLS and INP
+ * whenever the page is hidden with a changed value.
+ */
+export class PerformanceMonitor {
+  private options: PerformanceOptions;
+  private onMetric: (metric: PerformanceMetric) => void;
+  private active = false;
+  private observers: PerformanceObserver[] = [];
+  private observedTypes = new Set<string>();
+  private reported = new Map<WebVitalName, number>();
+  private lcp?: number;
+  private lcpFinal = false;
+  private cls = 0;
+  private clsWindow = { value: 0, first: 0, last: 0 };
+  private interactions = new Map<number, number>(); // interactionId -> longest duration
+  private handleHidden = () => {
+    if (document.visibilityState === "hidden") {
+      this.finalize();
+    }
+  };
+  private handlePageHide = () => this.finalize();
+  private handleInput = () => this.finalizeLcp();
+  private handleLoad = () => setTimeout(() => this.reportNavigation(), 0);
+
+  constructor(
+    options: PerformanceOptions,
+    onMetric: (metric: PerformanceMetric) => void
+  ) {
+    this.options = options;
+    this.onMetric = onMetric;
+  }
+
+  start(): void {
+    if (this.active || typeof window === "undefined") {
+      return;
+    }
+    this.active = true;
+
+    if (this.options.webVitals !== false) {
+      this.observe("paint", (entry) => {
+        if (entry.name === "first-contentful-paint") {
+          this.report("FCP", Math.max(entry.startTime - activationStart(), 0));
+        }
+      });
+      this.observe("largest-contentful-paint", (entry) => {
+        if (!this.lcpFinal) {
+          this.lcp = Math.max(entry.startTime - activationStart(), 0);
+        }
+      });
+      this.observe("layout-shift", (entry) => this.addLayoutShift(entry));
+      this.observe("event", (entry) => this.addInteraction(entry));
+      this.observe("first-input", (entry) => this.addInteraction(entry));
+
+      // LCP stops changing once the user interacts with the page
+      addEventListener("keydown", this.handleInput, true);
+      addEventListener("pointerdown", this.handleInput, true);
+      document.addEventListener("visibilitychange", this.handleHidden, true);
+      addEventListener("pagehide", this.handlePageHide, true);
+    }
+
+    // TTFB and navigation timing are complete once the load event ends
+    if (document.readyState === "complete") {
+      this.handleLoad();
+    } else {
+      addEventListener("load", this.handleLoad);
+    }
+  }
+
+  stop(): void {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+
+    for (const observer of this.observers) {
+      observer.disconnect();
+    }
+    this.observers = [];
+    this.observedTypes.clear();
+    removeEventListener("keydown", this.handleInput, true);
+    removeEventListener("pointerdown", this.handleInput, true);
+    document.removeEventListener("visibilitychange", this.handleHidden, true);
+    removeEventListener("pagehide", this.handlePageHide, true);
+    removeEventListener("load", this.handleLoad);
+  }
+
+  private observe(
+    type: string,
+    onEntry: (entry: PerformanceEntry & Record<string, any>) => void
+  ): void {
+    if (
+      typeof PerformanceObserver === "undefined" ||
+      !(PerformanceObserver.supportedEntryTypes || []).includes(type)
+    ) {
+      return;
+    }
+
+    try {
+      const observer = new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) {
+          onEntry(entry as PerformanceEntry & Record<string, any>);
+        }
+      });
+      observer.observe({
+        type,
+        buffered: true,
+        ...(type === "event"
+          ? { durationThreshold: INP_DURATION_THRESHOLD }
+          : {}),
+      } as PerformanceObserverInit);
+      this.observers.push(observer);
+      this.observedTypes.add(type);
+    } catch {
+      // Entry type listed but not observable, skip the metric
+    }
+  }
+
+  private addLayoutShift(entry: Record<string, any>): void {
+    // Shifts right after user input are expected
+    if (entry.hadRecentInput) {
+      return;
+    }
+
+    const current = this.clsWindow;
+    if (
+      current.value > 0 &&
+      entry.startTime - current.last < CLS_WINDOW_GAP &&
+      entry.startTime - current.first < CLS_WINDOW_MAX
+    ) {
+      current.value += entry.value;
+      current.last = entry.startTime;
+    } else {
+      this.clsWindow = {
+        value: entry.value,
+        first: entry.startTime,
+        last: entry.startTime,
+      };
+    }
+
+    this.cls = Math.max(this.cls, this.clsWindow.value);
+  }
+
+  private addInteraction(entry: Record<string, any>): void {
+    if (!entry.interactionId) {
+      return;
+    }
+    const longest = this.interactions.get(entry.interactionId) || 0;
+    this.interactions.set(
+      entry.interactionId,
+      Math.max(longest, entry.duration)
+    );
+  }
+
+  /**
+   * The slowest interaction, ignoring one outlier per 50 interactions
+   */
+  private inp(): number | undefined {
+    if (this.interactions.size === 0) {
+      return undefined;
+    }
+    const durations = Array.from(this.interactions.values()).sort(
+      (a, b) => b - a
+    );
+    const index = Math.min(
+      Math.floor(durations.length / 50),
+      durations.length - 1
+    );
+    return durations[index];
+  }
+
+  private finalizeLcp(): void {
+    if (this.lcpFinal) {
+      return;
+    }
+    this.lcpFinal = true;
+    if (this.lcp !== undefined) {
+      this.report("LCP", this.lcp);
+    }
+  }
+
+  private finalize(): void {
+    for (const observer of this.observers) {
+      // Deliver entries the browser has not dispatched yet
+      const pending = observer.takeRecords?.() || [];
+      for (const entry of pending as Array<
+        PerformanceEntry & Record<string, any>
+      >) {
+        if (entry.entryType === "layout-shift") {
+          this.addLayoutShift(entry);
+        } else if (
+          entry.entryType === "event" ||
+          entry.entryType === "first-input"
+        ) {
+          this.addInteraction(entry);
+        }
+      }
+    }
+
+    this.finalizeLcp();
+    if (this.observedTypes.has("layout-shift")) {
+      this.report("CLS", this.cls);
+    }
+    const inp = this.inp();
+    if (inp !== undefined) {
+      this.report("INP", inp);
+    }
+  }
+
+  private reportNavigation(): void {
+    const navigation = navigationEntry();
+    if (!this.active || !navigation) {
+      return;
+    }
+
+    if (this.options.webVitals !== false) {
+      this.report(
+        "TTFB",
+        Math.max(navigation.responseStart - activationStart(), 0)
+      );
+    }
+
+    if (this.options.navigationTiming !== false) {
+      this.onMetric({
+        name: "navigation_timing",
+        value: round(navigation.loadEventEnd),
+        properties: {
+          navigation_type: navigation.type,
+          redirect_time: round(
+            navigation.redirectEnd - navigation.redirectStart
+          ),
+          dns_time: round(
+            navigation.domainLookupEnd - navigation.domainLookupStart
+          ),
+          connect_time: round(navigation.connectEnd - navigation.connectStart),
+          tls_time: round(
+            navigation.secureConnectionStart > 0
+              ? navigation.connectEnd - navigation.secureConnectionStart
+              : 0
+          ),
+          request_time: round(
+            navigation.responseStart - navigation.requestStart
+          ),
+          response_time: round(
+            navigation.responseEnd - navigation.responseStart
+          ),
+          dom_interactive: round(navigation.domInteractive),
+          dom_content_loaded: round(navigation.domContentLoadedEventEnd),
+          load_time: round(navigation.loadEventEnd),
+          transfer_size: navigation.transferSize,
+        },
+      });
+    }
+  }
+
+  /**
+   * Report a Web Vital, unless this value was already reported
+   */
+  private report(name: WebVitalName, value: number): void {
+    const rounded =
+      name === "CLS" ? Math.round(value * 10000) / 10000 : round(value);
+    if (this.reported.get(name) === rounded) {
+      return;
+    }
+    const delta = rounded - (this.reported.get(name) ?? 0);
+    this.reported.set(name, rounded);
+
+    this.onMetric({
+      name,
+      value: rounded,
+      properties: {
+        metric_rating: rateMetric(name, rounded),
+        metric_delta:
+          name === "CLS" ? Math.round(delta * 10000) / 10000 : delta,
+      },
+    });
+  }
+}
+
+// activationStart is not in lib.dom.d.ts yet
+type NavigationEntry = PerformanceNavigationTiming & {
+  activationStart?: number;
+};
+
+function navigationEntry(): NavigationEntry | undefined {
+  if (typeof performance === "undefined" || !performance.getEntriesByType) {
+    return undefined;
+  }
+  return performance.getEntriesByType("navigation")[0] as
+    | NavigationEntry
+    | undefined;
+}
+
+/**
+ * Prerendered pages are timed from activation, not from the prerender
+ */
+function activationStart(): number {
+  return navigationEntry()?.activationStart || 0;
+}
+
+function round(value: number): number {
+  return Math.round(value);
+}
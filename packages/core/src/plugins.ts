@@ -0,0 +1,139 @@
+/**
+ * Augur Analytics SDK - Plugins
+ * Ordered middleware chain for enriching, transforming and dropping events
+ */
+
+import type { AugurAnalytics } from "./analytics";
+
+/**
+ * Result of an event stage:
+ * - the (possibly new) event to continue with
+ * - undefined to keep the event as-is (in-place mutation is allowed)
+ * - null or false to drop the event
+ */
+export type PluginEventResult = Record<string, any> | null | false | void;
+
+export interface AugurPlugin {
+  name: string;
+  setup?(analytics: AugurAnalytics<any>): void; // Called once when the plugin is registered
+  beforeEnqueue?(event: Record<string, any>): PluginEventResult; // Before an event is queued
+  beforeSend?(event: Record<string, any>): PluginEventResult; // Before a queued event is sent
+  afterSend?(events: Record<string, any>[], error?: unknown): void; // After a batch succeeds or fails
+  onIdentify?(userId: string, traits?: Record<string, any>): void;
+  onReset?(): void;
+  onFlush?(events: Record<string, any>[]): void;
+}
+
+type EventStage = "beforeEnqueue" | "beforeSend";
+type LifecycleHook = "afterSend" | "onIdentify" | "onReset" | "onFlush";
+
+/**
+ * Runs registered plugins in registration order
+ * A plugin that throws is logged and skipped so it cannot break tracking
+ */
+export class PluginPipeline {
+  private plugins: AugurPlugin[] = [];
+  private log: (message: string, data?: any) => void;
+
+  constructor(log: (message: string, data?: any) => void) {
+    this.log = log;
+  }
+
+  /**
+   * Register a plugin at the end of the chain
+   */
+  add(plugin: AugurPlugin): void {
+    if (this.plugins.some((existing) => existing.name === plugin.name)) {
+      this.log(`Plugin "${plugin.name}" already registered, replacing it`);
+      this.remove(plugin.name);
+    }
+    this.plugins.push(plugin);
+  }
+
+  /**
+   * Unregister a plugin by name
+   */
+  remove(name: string): void {
+    this.plugins = this.plugins.filter((plugin) => plugin.name !== name);
+  }
+
+  /**
+   * Get registered plugin names in execution order
+   */
+  names(): string[] {
+    return this.plugins.map((plugin) => plugin.name);
+  }
+
+  /**
+   * Pass an event through every plugin's stage handler
+   * Returns null if any plugin dropped the event
+   */
+  runEvent(
+    stage: EventStage,
+    event: Record<string, any>
+  ): Record<string, any> | null {
+    let current = event;
+
+    for (const plugin of this.plugins) {
+      const handler = plugin[stage];
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        const result = handler.call(plugin, current);
+        if (result === null || result === false) {
+          this.log(`Event dropped by plugin "${plugin.name}" (${stage})`, {
+            event_type: current.event_type,
+          });
+          return null;
+        }
+        if (result) {
+          current = result;
+        }
+      } catch (error) {
+        this.log(`Plugin "${plugin.name}" failed in ${stage}`, error);
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Pass a list of events through a stage, removing dropped events
+   */
+  runEvents(
+    stage: EventStage,
+    events: Record<string, any>[]
+  ): Record<string, any>[] {
+    const processed: Record<string, any>[] = [];
+    for (const event of events) {
+      const result = this.runEvent(stage, event);
+      if (result) {
+        processed.push(result);
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Notify every plugin implementing a lifecycle hook
+   */
+  notify<K extends LifecycleHook>(
+    hook: K,
+    ...args: Parameters<NonNullable<AugurPlugin[K]>>
+  ): void {
+    for (const plugin of this.plugins) {
+      const handler = plugin[hook] as ((...a: any[]) => void) | undefined;
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        handler.apply(plugin, args);
+      } catch (error) {
+        this.log(`Plugin "${plugin.name}" failed in ${hook}`, error);
+      }
+    }
+  }
+}
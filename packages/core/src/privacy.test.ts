@@ -0,0 +1,106 @@
+/**
+ * Unit tests for Augur Analytics privacy signals
+ */
+
+import { mapTcfConsent, watchTcfConsent, TcfData } from "./privacy";
+
+const fullConsent: TcfData = {
+  gdprApplies: true,
+  eventStatus: "useractioncomplete",
+  purpose: { consents: { 1: true, 8: true }, legitimateInterests: {} },
+  vendor: { consents: { 42: true }, legitimateInterests: {} },
+};
+
+describe("Privacy Signals", () => {
+  describe("mapTcfConsent", () => {
+    it("should wait while the CMP UI is shown", () => {
+      expect(mapTcfConsent({ ...fullConsent, eventStatus: "cmpuishown" })).toBe(
+        null
+      );
+    });
+
+    it("should grant everything when GDPR does not apply", () => {
+      expect(
+        mapTcfConsent({ gdprApplies: false, eventStatus: "tcloaded" })
+      ).toEqual({ analytics: true, storage: true, deviceInfo: true });
+    });
+
+    it("should map purpose consents to categories", () => {
+      expect(mapTcfConsent(fullConsent)).toEqual({
+        analytics: true,
+        storage: true,
+        deviceInfo: true,
+      });
+    });
+
+    it("should deny storage without purpose 1 consent", () => {
+      const result = mapTcfConsent({
+        ...fullConsent,
+        purpose: { consents: { 8: true } },
+      });
+
+      expect(result).toEqual({
+        analytics: true,
+        storage: false,
+        deviceInfo: false,
+      });
+    });
+
+    it("should accept legitimate interest for analytics", () => {
+      const result = mapTcfConsent({
+        ...fullConsent,
+        purpose: { consents: { 1: true }, legitimateInterests: { 8: true } },
+      });
+
+      expect(result?.analytics).toBe(true);
+    });
+
+    it("should require vendor consent when a vendor ID is set", () => {
+      expect(mapTcfConsent(fullConsent, { vendorId: 42 })?.storage).toBe(true);
+      expect(mapTcfConsent(fullConsent, { vendorId: 7 })).toEqual({
+        analytics: false,
+        storage: false,
+        deviceInfo: false,
+      });
+    });
+  });
+
+  describe("watchTcfConsent", () => {
+    afterEach(() => {
+      delete (window as any).__tcfapi;
+    });
+
+    it("should return null without a CMP", () => {
+      expect(watchTcfConsent({}, jest.fn())).toBeNull();
+    });
+
+    it("should report consent on every CMP update", () => {
+      let listener: (tcData: TcfData, success: boolean) => void = () => {};
+      const tcfapi = jest.fn((command, _version, callback) => {
+        if (command === "addEventListener") {
+          listener = callback;
+        }
+      });
+      (window as any).__tcfapi = tcfapi;
+      const callback = jest.fn();
+
+      const stop = watchTcfConsent({}, callback);
+      listener({ ...fullConsent, listenerId: 3 }, true);
+      listener({ ...fullConsent, purpose: { consents: {} } }, true);
+      stop!();
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith({
+        analytics: false,
+        storage: false,
+        deviceInfo: false,
+      });
+      expect(tcfapi).toHaveBeenLastCalledWith(
+        "removeEventListener",
+        2,
+        expect.any(Function),
+        3
+      );
+    });
+  });
+});
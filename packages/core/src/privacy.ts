@@ -0,0 +1,147 @@
+/**
+ * Augur Analytics SDK - Privacy Signals
+ * Reads IAB TCF v2 CMP consent and Global Privacy Control and maps them
+ * to Augur consent categories
+ */
+
+import type { ConsentPreferences } from "./consent";
+
+export interface TcfOptions {
+  vendorId?: number; // Your IAB vendor ID; when set, vendor consent is also required
+  analyticsPurposes?: number[]; // Purposes required for analytics (default: [8], consent or legitimate interest)
+  storagePurposes?: number[]; // Purposes required for storage (default: [1], consent only)
+}
+
+export interface PrivacySignalOptions {
+  tcf?: boolean | TcfOptions; // Follow the __tcfapi CMP when present (default: true)
+  gpc?: boolean; // Deny all categories when navigator.globalPrivacyControl is set (default: true)
+}
+
+/**
+ * Subset of the TCF v2 TCData object the SDK relies on
+ */
+export interface TcfData {
+  gdprApplies?: boolean;
+  eventStatus?: "tcloaded" | "cmpuishown" | "useractioncomplete" | string;
+  listenerId?: number;
+  purpose?: {
+    consents?: Record<string, boolean>;
+    legitimateInterests?: Record<string, boolean>;
+  };
+  vendor?: {
+    consents?: Record<string, boolean>;
+    legitimateInterests?: Record<string, boolean>;
+  };
+}
+
+type TcfApi = (
+  command: string,
+  version: number,
+  callback: (tcData: TcfData, success: boolean) => void,
+  parameter?: unknown
+) => void;
+
+// Globals set by the browser and CMP that lib.dom.d.ts does not declare
+type GpcNavigator = Navigator & { globalPrivacyControl?: boolean };
+type TcfWindow = Window & { __tcfapi?: TcfApi };
+
+/**
+ * Whether the browser sends the Global Privacy Control opt-out signal
+ */
+export function readGlobalPrivacyControl(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    (navigator as GpcNavigator).globalPrivacyControl === true
+  );
+}
+
+/**
+ * Whether the page has a TCF v2 CMP, i.e. exposes __tcfapi
+ */
+export function detectTcfApi(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof (window as TcfWindow).__tcfapi === "function"
+  );
+}
+
+/**
+ * Map TCF v2 data to consent preferences
+ * Returns null while the user has not made a choice yet
+ */
+export function mapTcfConsent(
+  tcData: TcfData,
+  options: TcfOptions = {}
+): ConsentPreferences | null {
+  if (
+    tcData.eventStatus !== "tcloaded" &&
+    tcData.eventStatus !== "useractioncomplete"
+  ) {
+    return null;
+  }
+
+  if (tcData.gdprApplies === false) {
+    return { analytics: true, storage: true, deviceInfo: true };
+  }
+
+  const purposeConsents = tcData.purpose?.consents || {};
+  const purposeInterests = tcData.purpose?.legitimateInterests || {};
+  const vendorConsents = tcData.vendor?.consents || {};
+  const vendorInterests = tcData.vendor?.legitimateInterests || {};
+  const vendorId = options.vendorId;
+
+  const storage =
+    (options.storagePurposes || [1]).every(
+      (purpose) => purposeConsents[purpose] === true
+    ) &&
+    (vendorId === undefined || vendorConsents[vendorId] === true);
+
+  const analytics =
+    (options.analyticsPurposes || [8]).every(
+      (purpose) =>
+        purposeConsents[purpose] === true || purposeInterests[purpose] === true
+    ) &&
+    (vendorId === undefined ||
+      vendorConsents[vendorId] === true ||
+      vendorInterests[vendorId] === true);
+
+  // Reading the user agent and screen counts as accessing the device
+  return { analytics, storage, deviceInfo: analytics && storage };
+}
+
+/**
+ * Listen to the page's TCF v2 CMP and report consent on load and on change
+ * Returns an unsubscribe function, or null when no CMP is present
+ */
+export function watchTcfConsent(
+  options: TcfOptions,
+  callback: (preferences: ConsentPreferences) => void
+): (() => void) | null {
+  if (!detectTcfApi()) {
+    return null;
+  }
+
+  const tcfapi = (window as TcfWindow).__tcfapi as TcfApi;
+
+  let listenerId: number | undefined;
+
+  tcfapi("addEventListener", 2, (tcData, success) => {
+    if (!success || !tcData) {
+      return;
+    }
+
+    if (tcData.listenerId !== undefined) {
+      listenerId = tcData.listenerId;
+    }
+    const preferences = mapTcfConsent(tcData, options);
+    if (preferences) {
+      callback(preferences);
+    }
+  });
+
+  return () => {
+    if (listenerId !== undefined) {
+      tcfapi("removeEventListener", 2, () => undefined, listenerId);
+    }
+  };
+}
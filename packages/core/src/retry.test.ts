@@ -0,0 +1,57 @@
+/**
+ * Unit tests for Augur Analytics retry scheduling
+ */
+
+import {
+  DeliveryError,
+  computeBackoff,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "./retry";
+
+describe("Retry", () => {
+  describe("computeBackoff", () => {
+    it("should grow exponentially within the jitter range", () => {
+      expect(computeBackoff(0, 500, 30000, () => 0)).toBe(250);
+      expect(computeBackoff(0, 500, 30000, () => 1)).toBe(500);
+      expect(computeBackoff(3, 500, 30000, () => 0)).toBe(2000);
+      expect(computeBackoff(3, 500, 30000, () => 1)).toBe(4000);
+    });
+
+    it("should cap the delay", () => {
+      expect(computeBackoff(20, 500, 30000, () => 1)).toBe(30000);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse seconds", () => {
+      expect(parseRetryAfter("120")).toBe(120000);
+    });
+
+    it("should parse HTTP dates", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000);
+    });
+
+    it("should ignore missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("classification", () => {
+    it("should retry network, rate limit and server errors", () => {
+      expect(isRetryableStatus(0)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(413)).toBe(false);
+    });
+
+    it("should treat thrown network errors as retryable", () => {
+      expect(isRetryableError(new Error("Network error"))).toBe(true);
+      expect(isRetryableError(new DeliveryError(401))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Augur Analytics SDK - Retry
+ * Backoff scheduling and classification of delivery failures
+ */
+
+/**
+ * A batch the server (or transport) did not accept
+ */
+export class DeliveryError extends Error {
+  readonly status: number;
+  readonly retryAfter?: number; // Delay in ms requested by the server
+
+  constructor(status: number, retryAfter?: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = "DeliveryError";
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Whether sending the same batch again can succeed
+   */
+  get retryable(): boolean {
+    return isRetryableStatus(this.status);
+  }
+}
+
+/**
+ * Network failures (0), timeouts, rate limiting and server errors are
+ * worth retrying; other 4xx responses will fail the same way again
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Whether an error thrown while sending can be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  return !(error instanceof DeliveryError) || error.retryable;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * baseDelay * 2^attempt, capped at maxDelay
+ */
+export function computeBackoff(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
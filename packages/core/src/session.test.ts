@@ -0,0 +1,109 @@
+/**
+ * Unit tests for Augur Analytics session metadata
+ */
+
+import {
+  createSession,
+  parseSession,
+  readCampaign,
+  serializeSession,
+  sessionExpiry,
+} from "./session";
+
+describe("Sessions", () => {
+  afterEach(() => {
+    window.history.replaceState({}, "", "/");
+    Object.defineProperty(document, "referrer", {
+      configurable: true,
+      value: "",
+    });
+  });
+
+  it("should read UTM parameters", () => {
+    expect(
+      readCampaign("?utm_source=newsletter&utm_medium=email&page=2")
+    ).toEqual({ source: "newsletter", medium: "email" });
+    expect(readCampaign("?page=2")).toBeUndefined();
+  });
+
+  it("should capture the entry page, referrer and campaign", () => {
+    window.history.replaceState({}, "", "/pricing?utm_campaign=spring");
+    Object.defineProperty(document, "referrer", {
+      configurable: true,
+      value: "https://news.example.org/article?id=7",
+    });
+
+    expect(createSession("sess-1", 1000)).toEqual({
+      sessionId: "sess-1",
+      startedAt: 1000,
+      lastActivityAt: 1000,
+      sequence: 0,
+      entryPage: "/pricing",
+      referrer: "https://news.example.org/article",
+      campaign: { campaign: "spring" },
+    });
+  });
+
+  it("should ignore referrers from the same site", () => {
+    Object.defineProperty(document, "referrer", {
+      configurable: true,
+      value: `${window.location.origin}/home`,
+    });
+
+    expect(createSession("sess-1").referrer).toBeUndefined();
+  });
+
+  it("should expire sessions after inactivity, max length or midnight", () => {
+    const minute = 60 * 1000;
+    const start = new Date(2026, 0, 15, 23, 0).getTime();
+    const session = {
+      ...createSession("sess-1", start),
+      lastActivityAt: start + 50 * minute,
+    };
+    const limits = { timeout: 30 * minute };
+
+    expect(sessionExpiry(session, limits, start + 55 * minute)).toBeUndefined();
+    expect(sessionExpiry(session, limits, start + 80 * minute)).toBe("timeout");
+    expect(
+      sessionExpiry(
+        session,
+        { ...limits, maxLength: 40 * minute },
+        start + 55 * minute
+      )
+    ).toBe("max_length");
+    expect(
+      sessionExpiry(
+        session,
+        { ...limits, midnightRollover: true },
+        start + 65 * minute
+      )
+    ).toBe("midnight");
+    expect(
+      sessionExpiry(
+        session,
+        { ...limits, midnightRollover: true },
+        start + 55 * minute
+      )
+    ).toBeUndefined();
+  });
+
+  it("should round-trip stored sessions", () => {
+    const session = { ...createSession("sess-1", 1000), sequence: 4 };
+
+    expect(JSON.parse(serializeSession(session)).timestamp).toBe(1000);
+    expect(parseSession(serializeSession(session))).toEqual(session);
+  });
+
+  it("should read sessions stored by earlier versions", () => {
+    const legacy = JSON.stringify({ sessionId: "sess-a-1-b", timestamp: 500 });
+
+    expect(parseSession(legacy)).toMatchObject({
+      sessionId: "sess-a-1-b",
+      startedAt: 500,
+      lastActivityAt: 500,
+      sequence: 0,
+    });
+    expect(parseSession("{broken")).toBeNull();
+    expect(parseSession(null)).toBeNull();
+  });
+});
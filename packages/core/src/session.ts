@@ -0,0 +1,157 @@
+/**
+ * Augur Analytics SDK - Sessions
+ * Session metadata captured when a session starts and the stored format
+ * shared by page loads and tabs
+ */
+
+// "timeout" after inactivity, "max_length" and "midnight" when a limit is reached
+export type SessionEndReason = "timeout" | "reset" | "max_length" | "midnight";
+
+// "new" when there was no previous session, otherwise why it ended
+export type SessionStartReason = "new" | SessionEndReason;
+
+export interface CampaignParams {
+  source?: string; // utm_source
+  medium?: string; // utm_medium
+  campaign?: string; // utm_campaign
+  term?: string; // utm_term
+  content?: string; // utm_content
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  startedAt: number; // Epoch ms
+  lastActivityAt: number; // Epoch ms of the last page load or tracked event
+  sequence: number; // Events tracked in this session so far
+  entryPage?: string; // Path of the first page, without query string
+  referrer?: string; // External referrer at session start, without query string
+  campaign?: CampaignParams; // UTM parameters of the entry page
+}
+
+export interface SessionLimits {
+  timeout: number; // Inactivity in ms that ends a session
+  maxLength?: number; // Longest session in ms, however active
+  midnightRollover?: boolean; // End sessions at local midnight
+}
+
+export type SessionChangeListener = (
+  session: SessionInfo,
+  reason: SessionStartReason
+) => void;
+
+const CAMPAIGN_PARAMS: Array<[keyof CampaignParams, string]> = [
+  ["source", "utm_source"],
+  ["medium", "utm_medium"],
+  ["campaign", "utm_campaign"],
+  ["term", "utm_term"],
+  ["content", "utm_content"],
+];
+
+/**
+ * UTM parameters of a query string, or undefined when there are none
+ */
+export function readCampaign(search: string): CampaignParams | undefined {
+  const params = new URLSearchParams(search);
+  const campaign: CampaignParams = {};
+  for (const [key, param] of CAMPAIGN_PARAMS) {
+    const value = params.get(param);
+    if (value) {
+      campaign[key] = value;
+    }
+  }
+  return Object.keys(campaign).length > 0 ? campaign : undefined;
+}
+
+/**
+ * A session starting now on the current page
+ */
+export function createSession(
+  sessionId: string,
+  now: number = Date.now()
+): SessionInfo {
+  const session: SessionInfo = {
+    sessionId,
+    startedAt: now,
+    lastActivityAt: now,
+    sequence: 0,
+  };
+  if (typeof window === "undefined") {
+    return session;
+  }
+
+  session.entryPage = window.location.pathname;
+  session.campaign = readCampaign(window.location.search);
+  try {
+    const referrer = new URL(document.referrer);
+    // Navigations within the site are not a traffic source
+    if (referrer.origin !== window.location.origin) {
+      session.referrer = `${referrer.origin}${referrer.pathname}`;
+    }
+  } catch {
+    // No referrer
+  }
+  return session;
+}
+
+/**
+ * Why a session has ended by now, or undefined while it is still active
+ */
+export function sessionExpiry(
+  session: SessionInfo,
+  limits: SessionLimits,
+  now: number = Date.now()
+): SessionEndReason | undefined {
+  if (now - session.lastActivityAt >= limits.timeout) {
+    return "timeout";
+  }
+  if (
+    limits.maxLength !== undefined &&
+    now - session.startedAt >= limits.maxLength
+  ) {
+    return "max_length";
+  }
+  if (
+    limits.midnightRollover &&
+    new Date(session.startedAt).toDateString() !== new Date(now).toDateString()
+  ) {
+    return "midnight";
+  }
+  return undefined;
+}
+
+/**
+ * Stored form of a session. "timestamp" holds the last activity, the name
+ * used by earlier SDK versions.
+ */
+export function serializeSession(session: SessionInfo): string {
+  const { lastActivityAt, ...rest } = session;
+  return JSON.stringify({ ...rest, timestamp: lastActivityAt });
+}
+
+/**
+ * Read a stored session, including the { sessionId, timestamp } records
+ * written by earlier SDK versions. Returns null for malformed values.
+ */
+export function parseSession(raw: string | null): SessionInfo | null {
+  try {
+    const stored = JSON.parse(raw || "null");
+    if (
+      !stored ||
+      typeof stored.sessionId !== "string" ||
+      typeof stored.timestamp !== "number"
+    ) {
+      return null;
+    }
+    return {
+      sessionId: stored.sessionId,
+      startedAt: stored.startedAt ?? stored.timestamp,
+      lastActivityAt: stored.timestamp,
+      sequence: stored.sequence ?? 0,
+      entryPage: stored.entryPage,
+      referrer: stored.referrer,
+      campaign: stored.campaign,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for Augur Analytics offline storage
+ */
+
+import { IDBFactory } from "fake-indexeddb";
+import {
+  IndexedDBStorageAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  StoredEvent,
+  selectEvictions,
+} from "./storage";
+
+const event = (name: string, timestamp = new Date().toISOString()) => ({
+  event_type: name,
+  session_id: "sess-1",
+  properties: { timestamp },
+});
+
+describe("Offline Storage", () => {
+  describe("selectEvictions", () => {
+    const entries: StoredEvent[] = [
+      { id: "a", event: {}, storedAt: 1000, bytes: 100 },
+      { id: "b", event: {}, storedAt: 2000, bytes: 100 },
+      { id: "c", event: {}, storedAt: 3000, bytes: 100 },
+    ];
+
+    it("should evict expired events", () => {
+      expect(selectEvictions(entries, { ttl: 1500 }, 3500)).toEqual(
+        new Set(["a", "b"])
+      );
+    });
+
+    it("should evict the oldest events beyond the count limit", () => {
+      expect(selectEvictions(entries, { maxEvents: 1 })).toEqual(
+        new Set(["a", "b"])
+      );
+    });
+
+    it("should evict the oldest events beyond the byte limit", () => {
+      expect(selectEvictions(entries, { maxBytes: 250 })).toEqual(
+        new Set(["a"])
+      );
+    });
+  });
+
+  describe("LocalStorageAdapter", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("should store events under the legacy session key", async () => {
+      const adapter = new LocalStorageAdapter();
+
+      await adapter.add([event("first"), event("second")]);
+
+      const stored = JSON.parse(localStorage.getItem("augur_events_sess-1")!);
+      expect(stored.map((e: any) => e.event_type)).toEqual(["first", "second"]);
+    });
+
+    it("should drain in FIFO order and remove delivered events", async () => {
+      const adapter = new LocalStorageAdapter();
+      await adapter.add([
+        event("first", "2024-01-01T00:00:00.000Z"),
+        event("second", "2024-01-01T00:00:01.000Z"),
+        event("third", "2024-01-01T00:00:02.000Z"),
+      ]);
+
+      const batch = await adapter.peek(2);
+      expect(batch.map((entry) => entry.event.event_type)).toEqual([
+        "first",
+        "second",
+      ]);
+
+      await adapter.remove(batch.map((entry) => entry.id));
+      const rest = await adapter.peek(10);
+      expect(rest.map((entry) => entry.event.event_type)).toEqual(["third"]);
+    });
+
+    it("should only remove peeked events after evictions", async () => {
+      const adapter = new LocalStorageAdapter({ maxEvents: 5 });
+      await adapter.add(
+        [0, 1, 2, 3, 4].map((i) =>
+          event(`e${i}`, `2024-01-01T00:00:0${i}.000Z`)
+        )
+      );
+
+      const batch = await adapter.peek(2);
+      await adapter.add([
+        event("e5", "2024-01-01T00:00:05.000Z"),
+        event("e6", "2024-01-01T00:00:06.000Z"),
+      ]);
+      await adapter.remove(batch.map((entry) => entry.id));
+
+      const rest = await adapter.peek(10);
+      expect(rest.map((entry) => entry.event.event_type)).toEqual([
+        "e2",
+        "e3",
+        "e4",
+        "e5",
+        "e6",
+      ]);
+    });
+
+    it("should drain events stored by earlier versions", async () => {
+      const legacy = event("legacy");
+      localStorage.setItem("augur_events_sess-1", JSON.stringify([legacy]));
+      const adapter = new LocalStorageAdapter();
+
+      const [entry] = await adapter.peek(10);
+      expect(entry.event).toEqual(legacy);
+
+      await adapter.remove([entry.id]);
+      expect(localStorage.getItem("augur_events_sess-1")).toBeNull();
+    });
+
+    it("should drop expired events", async () => {
+      const adapter = new LocalStorageAdapter({ ttl: 60000 });
+      await adapter.add([
+        event("stale", new Date(Date.now() - 120000).toISOString()),
+        event("fresh"),
+      ]);
+
+      const entries = await adapter.peek(10);
+      expect(entries.map((entry) => entry.event.event_type)).toEqual(["fresh"]);
+    });
+  });
+
+  describe("IndexedDBStorageAdapter", () => {
+    beforeEach(() => {
+      (global as any).indexedDB = new IDBFactory();
+    });
+
+    afterEach(() => {
+      delete (global as any).indexedDB;
+    });
+
+    it("should keep events beyond the localStorage cap", async () => {
+      const adapter = new IndexedDBStorageAdapter({ maxEvents: 500 });
+      const events = Array.from({ length: 250 }, (_, i) => event(`e${i}`));
+
+      await adapter.add(events);
+
+      const stored = await adapter.peek(1000);
+      expect(stored).toHaveLength(250);
+      expect(stored[0].event.event_type).toBe("e0");
+    });
+
+    it("should evict the oldest events beyond the caps", async () => {
+      const adapter = new IndexedDBStorageAdapter({ maxEvents: 2 });
+
+      await adapter.add([event("first")]);
+      await adapter.add([event("second"), event("third")]);
+
+      const stored = await adapter.peek(10);
+      expect(stored.map((entry) => entry.event.event_type)).toEqual([
+        "second",
+        "third",
+      ]);
+    });
+
+    it("should remove drained events and clear", async () => {
+      const adapter = new IndexedDBStorageAdapter({});
+      await adapter.add([event("first"), event("second")]);
+
+      const [first] = await adapter.peek(1);
+      await adapter.remove([first.id]);
+      expect((await adapter.peek(10)).map((e) => e.event.event_type)).toEqual([
+        "second",
+      ]);
+
+      await adapter.clear();
+      expect(await adapter.peek(10)).toEqual([]);
+    });
+
+    it("should skip expired events", async () => {
+      jest.useFakeTimers({ doNotFake: ["setImmediate", "queueMicrotask"] });
+      const adapter = new IndexedDBStorageAdapter({ ttl: 1000 });
+
+      await adapter.add([event("stale")]);
+      jest.setSystemTime(Date.now() + 5000);
+      await adapter.add([event("fresh")]);
+
+      const stored = await adapter.peek(10);
+      expect(stored.map((entry) => entry.event.event_type)).toEqual(["fresh"]);
+      jest.useRealTimers();
+    });
+  });
+
+  describe("MemoryStorageAdapter", () => {
+    it("should apply the count limit", async () => {
+      const adapter = new MemoryStorageAdapter({ maxEvents: 1 });
+
+      await adapter.add([event("first"), event("second")]);
+
+      const stored = await adapter.peek(10);
+      expect(stored.map((entry) => entry.event.event_type)).toEqual(["second"]);
+    });
+  });
+});
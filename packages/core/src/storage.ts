@@ -0,0 +1,380 @@
+/**
+ * Augur Analytics SDK - Offline Storage
+ * Durable queue for events that could not be delivered
+ */
+
+import { randomUuid } from "./identity";
+
+export interface StoredEvent {
+  id: string;
+  event: Record<string, any>;
+  storedAt: number; // Epoch ms used for FIFO order and TTL expiry
+  bytes: number; // Approximate serialized size
+}
+
+export interface StorageLimits {
+  maxEvents?: number; // Oldest events are evicted beyond this count
+  maxBytes?: number; // Oldest events are evicted beyond this total size
+  ttl?: number; // Events older than this many ms are discarded
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  add(events: Record<string, any>[]): Promise<void>; // Append events, enforcing limits
+  peek(limit: number): Promise<StoredEvent[]>; // Oldest unexpired events first
+  remove(ids: string[]): Promise<void>; // Remove events returned by peek
+  clear(): Promise<void>;
+}
+
+/**
+ * Approximate serialized size of an event in bytes
+ */
+export function estimateBytes(event: unknown): number {
+  const json = JSON.stringify(event) || "";
+  return typeof TextEncoder !== "undefined"
+    ? new TextEncoder().encode(json).length
+    : json.length;
+}
+
+/**
+ * Pick events to discard: expired ones, then the oldest until the
+ * remaining events fit within the count and byte limits
+ */
+export function selectEvictions(
+  entries: StoredEvent[],
+  limits: StorageLimits,
+  now: number = Date.now()
+): Set<string> {
+  const evicted = new Set<string>();
+  const sorted = [...entries].sort((a, b) => a.storedAt - b.storedAt);
+  const kept: StoredEvent[] = [];
+
+  for (const entry of sorted) {
+    if (limits.ttl !== undefined && entry.storedAt <= now - limits.ttl) {
+      evicted.add(entry.id);
+    } else {
+      kept.push(entry);
+    }
+  }
+
+  let count = kept.length;
+  let bytes = kept.reduce((total, entry) => total + entry.bytes, 0);
+
+  for (const entry of kept) {
+    const overCount =
+      limits.maxEvents !== undefined && count > limits.maxEvents;
+    const overBytes = limits.maxBytes !== undefined && bytes > limits.maxBytes;
+    if (!overCount && !overBytes) {
+      break;
+    }
+    evicted.add(entry.id);
+    count--;
+    bytes -= entry.bytes;
+  }
+
+  return evicted;
+}
+
+/**
+ * Store events in localStorage under augur_events_<session_id> keys
+ * Compatible with events persisted by earlier SDK versions
+ *
+ * Each record carries a random id, so removing a drained batch cannot hit
+ * events that shifted position after an eviction or a drain in another tab
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = "localStorage";
+  private limits: StorageLimits;
+  private readonly KEY_PREFIX = "augur_events_";
+  private readonly ID_FIELD = "_augur_storage_id";
+
+  constructor(limits: StorageLimits = { maxEvents: 100 }) {
+    this.limits = limits;
+  }
+
+  async add(events: Record<string, any>[]): Promise<void> {
+    const groups: Record<string, Record<string, any>[]> = {};
+    for (const event of events) {
+      const key = `${this.KEY_PREFIX}${event.session_id || "unknown"}`;
+      (groups[key] = groups[key] || []).push({
+        ...event,
+        [this.ID_FIELD]: randomUuid(),
+      });
+    }
+
+    for (const key of Object.keys(groups)) {
+      const existing = this.read(key);
+      localStorage.setItem(key, JSON.stringify([...existing, ...groups[key]]));
+    }
+
+    const evicted = selectEvictions(this.readAll(), this.limits);
+    if (evicted.size > 0) {
+      await this.remove([...evicted]);
+    }
+  }
+
+  async peek(limit: number): Promise<StoredEvent[]> {
+    const entries = this.readAll();
+    const expired = selectEvictions(entries, { ttl: this.limits.ttl });
+    if (expired.size > 0) {
+      await this.remove([...expired]);
+    }
+
+    return entries
+      .filter((entry) => !expired.has(entry.id))
+      .sort((a, b) => a.storedAt - b.storedAt)
+      .slice(0, limit);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const byKey: Record<string, Set<string>> = {};
+    for (const id of ids) {
+      const separator = id.lastIndexOf("#");
+      const key = id.slice(0, separator);
+      (byKey[key] = byKey[key] || new Set()).add(id.slice(separator + 1));
+    }
+
+    for (const key of Object.keys(byKey)) {
+      const remaining = this.read(key).filter(
+        (record) => !byKey[key].has(record[this.ID_FIELD])
+      );
+      if (remaining.length > 0) {
+        localStorage.setItem(key, JSON.stringify(remaining));
+      } else {
+        localStorage.removeItem(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    for (const key of this.keys()) {
+      localStorage.removeItem(key);
+    }
+  }
+
+  private keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(this.KEY_PREFIX)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private read(key: string): Record<string, any>[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) || "[]");
+      return Array.isArray(stored)
+        ? stored.filter((record) => record && typeof record === "object")
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private readAll(): StoredEvent[] {
+    const now = Date.now();
+    const entries: StoredEvent[] = [];
+
+    for (const key of this.keys()) {
+      const records = this.read(key);
+      // Events persisted by earlier SDK versions have no id yet
+      if (records.some((record) => !record[this.ID_FIELD])) {
+        records.forEach((record) => {
+          record[this.ID_FIELD] = record[this.ID_FIELD] || randomUuid();
+        });
+        localStorage.setItem(key, JSON.stringify(records));
+      }
+
+      for (const record of records) {
+        const { [this.ID_FIELD]: storageId, ...event } = record;
+        const timestamp = Date.parse(event?.properties?.timestamp);
+        entries.push({
+          id: `${key}#${storageId}`,
+          event,
+          storedAt: isNaN(timestamp) ? now : timestamp,
+          bytes: estimateBytes(event),
+        });
+      }
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * Store events in IndexedDB
+ * Suited to long offline periods: no 5MB quota and no main-thread
+ * serialization of the whole backlog on every write
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = "indexedDB";
+  private limits: StorageLimits;
+  private dbName: string;
+  private readonly STORE_NAME = "events";
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(
+    limits: StorageLimits = {
+      maxEvents: 10000,
+      maxBytes: 5 * 1024 * 1024,
+      ttl: 7 * 24 * 60 * 60 * 1000,
+    },
+    dbName: string = "augur_analytics"
+  ) {
+    this.limits = limits;
+    this.dbName = dbName;
+  }
+
+  /**
+   * Whether IndexedDB is available in this environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  async add(events: Record<string, any>[]): Promise<void> {
+    const db = await this.open();
+    const now = Date.now();
+
+    await this.transaction(db, "readwrite", (store) => {
+      for (const event of events) {
+        store.add({ event, storedAt: now, bytes: estimateBytes(event) });
+      }
+    });
+
+    const entries = await this.readAll(db);
+    const evicted = selectEvictions(entries, this.limits, now);
+    if (evicted.size > 0) {
+      await this.remove([...evicted]);
+    }
+  }
+
+  async peek(limit: number): Promise<StoredEvent[]> {
+    const db = await this.open();
+    const entries = await this.readAll(db, limit);
+    const expired = selectEvictions(entries, { ttl: this.limits.ttl });
+
+    if (expired.size > 0) {
+      await this.remove([...expired]);
+      // Expired events are the oldest, so look again past them
+      return this.peek(limit);
+    }
+
+    return entries;
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const db = await this.open();
+    await this.transaction(db, "readwrite", (store) => {
+      for (const id of ids) {
+        store.delete(Number(id));
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    await this.transaction(db, "readwrite", (store) => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.STORE_NAME, {
+            autoIncrement: true,
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = undefined;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private transaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.STORE_NAME, mode);
+      run(tx.objectStore(this.STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Read entries in insertion (FIFO) order
+   */
+  private readAll(db: IDBDatabase, limit?: number): Promise<StoredEvent[]> {
+    return new Promise((resolve, reject) => {
+      const entries: StoredEvent[] = [];
+      const tx = db.transaction(this.STORE_NAME, "readonly");
+      const request = tx.objectStore(this.STORE_NAME).openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (limit !== undefined && entries.length >= limit)) {
+          resolve(entries);
+          return;
+        }
+        entries.push({ id: String(cursor.key), ...cursor.value });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Keep failed events in memory only (lost on page unload)
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = "memory";
+  private entries: StoredEvent[] = [];
+  private nextId = 0;
+  private limits: StorageLimits;
+
+  constructor(limits: StorageLimits = { maxEvents: 1000 }) {
+    this.limits = limits;
+  }
+
+  async add(events: Record<string, any>[]): Promise<void> {
+    const now = Date.now();
+    for (const event of events) {
+      this.entries.push({
+        id: String(this.nextId++),
+        event,
+        storedAt: now,
+        bytes: estimateBytes(event),
+      });
+    }
+    await this.remove([...selectEvictions(this.entries, this.limits, now)]);
+  }
+
+  async peek(limit: number): Promise<StoredEvent[]> {
+    await this.remove([
+      ...selectEvictions(this.entries, { ttl: this.limits.ttl }),
+    ]);
+    return this.entries.slice(0, limit);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    this.entries = this.entries.filter((entry) => !removed.has(entry.id));
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+  }
+}
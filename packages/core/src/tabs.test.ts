@@ -0,0 +1,120 @@
+/**
+ * Unit tests for Augur Analytics cross-tab coordination
+ */
+
+import { TabCoordinator, TabMessage } from "./tabs";
+
+// In-process BroadcastChannel: delivers to every other channel with the same name
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+  onmessage: ((event: { data: any }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: any): void {
+    for (const channel of FakeBroadcastChannel.channels) {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data });
+      }
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(
+      (channel) => channel !== this
+    );
+  }
+}
+
+describe("TabCoordinator", () => {
+  let tabs: TabCoordinator[];
+
+  const createTab = () => {
+    const tab = new TabCoordinator({ leaseMs: 1000 });
+    tabs.push(tab);
+    return tab;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    localStorage.clear();
+    tabs = [];
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterEach(() => {
+    tabs.forEach((tab) => tab.stop());
+    delete (global as any).BroadcastChannel;
+    jest.useRealTimers();
+  });
+
+  it("should elect the first tab as leader", () => {
+    const first = createTab();
+    const second = createTab();
+    const onLeader = jest.fn();
+    first.onBecomeLeader(onLeader);
+
+    first.start();
+    second.start();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+    expect(onLeader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should hand leadership over when the leader stops", () => {
+    const first = createTab();
+    const second = createTab();
+    const onLeader = jest.fn();
+    second.onBecomeLeader(onLeader);
+
+    first.start();
+    second.start();
+    first.stop();
+    jest.advanceTimersByTime(500);
+
+    expect(second.isLeader()).toBe(true);
+    expect(onLeader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should take over an expired lease", () => {
+    // A tab that was closed without firing pagehide
+    localStorage.setItem(
+      "augur_analytics_leader",
+      JSON.stringify({ tabId: "closed-tab", expires: Date.now() + 1000 })
+    );
+    const tab = createTab();
+
+    tab.start();
+    expect(tab.isLeader()).toBe(false);
+
+    jest.advanceTimersByTime(1500);
+    expect(tab.isLeader()).toBe(true);
+  });
+
+  it("should deliver messages to other tabs only", () => {
+    const first = createTab();
+    const second = createTab();
+    const firstHandler = jest.fn();
+    const secondHandler = jest.fn();
+    first.onMessage(firstHandler);
+    second.onMessage(secondHandler);
+
+    first.start();
+    second.start();
+
+    const message: TabMessage = {
+      type: "session",
+      sessionId: "sess-shared",
+      reason: "new",
+    };
+    first.broadcast(message);
+
+    expect(firstHandler).not.toHaveBeenCalled();
+    expect(secondHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: "sess-shared", from: first.tabId })
+    );
+  });
+});
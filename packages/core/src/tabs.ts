@@ -0,0 +1,221 @@
+/**
+ * Augur Analytics SDK - Cross-tab coordination
+ * Shares session changes between tabs and elects a single leader tab
+ * (used to drain persisted events) with a localStorage lease
+ */
+
+import type { SessionStartReason } from "./session";
+
+export interface TabMessage {
+  type: "session";
+  sessionId: string;
+  reason: SessionStartReason;
+  from?: string;
+}
+
+export interface TabCoordinatorOptions {
+  leaseMs?: number; // How long a leader lease lasts without renewal (default: 5000)
+  channelName?: string; // BroadcastChannel / storage key name (default: "augur_analytics")
+  log?: (message: string, data?: any) => void;
+}
+
+interface LeaderLease {
+  tabId: string;
+  expires: number;
+}
+
+/**
+ * Messaging between tabs: BroadcastChannel when available, otherwise
+ * localStorage writes picked up through the "storage" event
+ */
+class TabChannel {
+  private channel?: BroadcastChannel;
+  private storageKey: string;
+  private handler?: (message: TabMessage) => void;
+  private storageListener = (event: StorageEvent) => {
+    if (event.key !== this.storageKey || !event.newValue) {
+      return;
+    }
+    try {
+      this.handler?.(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore malformed messages written by other code
+    }
+  };
+
+  constructor(name: string) {
+    this.storageKey = `${name}_message`;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event) => this.handler?.(event.data);
+    } else {
+      window.addEventListener("storage", this.storageListener);
+    }
+  }
+
+  post(message: TabMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    // The nonce makes repeated identical messages still fire "storage"
+    localStorage.setItem(
+      this.storageKey,
+      JSON.stringify({ message, nonce: Math.random() })
+    );
+    localStorage.removeItem(this.storageKey);
+  }
+
+  listen(handler: (message: TabMessage) => void): void {
+    this.handler = handler;
+  }
+
+  close(): void {
+    this.handler = undefined;
+    if (this.channel) {
+      this.channel.close();
+    } else {
+      window.removeEventListener("storage", this.storageListener);
+    }
+  }
+}
+
+export class TabCoordinator {
+  readonly tabId: string;
+  private leaseMs: number;
+  private leaseKey: string;
+  private channelName: string;
+  private channel?: TabChannel;
+  private heartbeat?: ReturnType<typeof setInterval>;
+  private leader: boolean = false;
+  private messageHandlers: ((message: TabMessage) => void)[] = [];
+  private leaderHandlers: (() => void)[] = [];
+  private log: (message: string, data?: any) => void;
+  private pagehideListener = () => this.releaseLease();
+
+  constructor(options: TabCoordinatorOptions = {}) {
+    this.leaseMs = options.leaseMs || 5000;
+    this.channelName = options.channelName || "augur_analytics";
+    this.leaseKey = `${this.channelName}_leader`;
+    this.log = options.log || (() => undefined);
+    this.tabId = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Start listening to other tabs and competing for leadership
+   */
+  start(): void {
+    if (this.heartbeat) {
+      return;
+    }
+
+    this.channel = new TabChannel(this.channelName);
+    this.channel.listen((message) => {
+      if (message.from === this.tabId) {
+        return;
+      }
+      for (const handler of this.messageHandlers) {
+        handler(message);
+      }
+    });
+
+    window.addEventListener("pagehide", this.pagehideListener);
+    this.heartbeat = setInterval(() => this.renewLease(), this.leaseMs / 2);
+    this.renewLease();
+  }
+
+  /**
+   * Stop coordinating and give up leadership
+   */
+  stop(): void {
+    if (!this.heartbeat) {
+      return;
+    }
+
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+    window.removeEventListener("pagehide", this.pagehideListener);
+    this.releaseLease();
+    this.channel?.close();
+    this.channel = undefined;
+  }
+
+  /**
+   * Whether this tab currently holds the leader lease
+   */
+  isLeader(): boolean {
+    const lease = this.readLease();
+    this.leader =
+      lease !== null &&
+      lease.tabId === this.tabId &&
+      lease.expires > Date.now();
+    return this.leader;
+  }
+
+  /**
+   * Send a message to every other tab
+   */
+  broadcast(message: TabMessage): void {
+    this.channel?.post({ ...message, from: this.tabId });
+  }
+
+  /**
+   * Handle messages sent by other tabs
+   */
+  onMessage(handler: (message: TabMessage) => void): void {
+    this.messageHandlers.push(handler);
+  }
+
+  /**
+   * Called whenever this tab becomes the leader
+   */
+  onBecomeLeader(handler: () => void): void {
+    this.leaderHandlers.push(handler);
+  }
+
+  /**
+   * Claim the lease if it is free or expired, extend it if we hold it
+   */
+  private renewLease(): void {
+    const wasLeader = this.leader;
+    const lease = this.readLease();
+    const now = Date.now();
+
+    if (!lease || lease.expires <= now || lease.tabId === this.tabId) {
+      try {
+        localStorage.setItem(
+          this.leaseKey,
+          JSON.stringify({ tabId: this.tabId, expires: now + this.leaseMs })
+        );
+      } catch (error) {
+        this.log("Error writing leader lease", error);
+      }
+    }
+
+    // Re-read to resolve races where another tab wrote at the same time
+    if (this.isLeader() && !wasLeader) {
+      this.log("Became leader tab", { tabId: this.tabId });
+      for (const handler of this.leaderHandlers) {
+        handler();
+      }
+    }
+  }
+
+  private releaseLease(): void {
+    if (this.isLeader()) {
+      localStorage.removeItem(this.leaseKey);
+    }
+    this.leader = false;
+  }
+
+  private readLease(): LeaderLease | null {
+    try {
+      const stored = localStorage.getItem(this.leaseKey);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+}
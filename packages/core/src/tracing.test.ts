@@ -0,0 +1,36 @@
+/**
+ * Unit tests for Augur Analytics trace context headers
+ */
+
+import { createTraceparent, randomHex, traceHeaders } from "./tracing";
+
+describe("Trace Context", () => {
+  it("should create random hex ids", () => {
+    expect(randomHex(8)).toMatch(/^[0-9a-f]{16}$/);
+    expect(randomHex(16)).not.toBe(randomHex(16));
+  });
+
+  it("should create W3C traceparent values", () => {
+    expect(createTraceparent()).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(createTraceparent(false)).toMatch(/-00$/);
+  });
+
+  it("should add traceparent and session baggage", () => {
+    const headers = traceHeaders("sess 1", new Headers());
+
+    expect(headers.traceparent).toMatch(/^00-/);
+    expect(headers.baggage).toBe("augur.session_id=sess%201");
+  });
+
+  it("should keep existing trace context", () => {
+    const existing = new Headers({
+      traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      baggage: "tenant=acme,augur.session_id=sess-1",
+    });
+
+    expect(traceHeaders("sess-1", existing)).toEqual({});
+    expect(
+      traceHeaders("sess-1", new Headers(), { baggage: false })
+    ).not.toHaveProperty("baggage");
+  });
+});
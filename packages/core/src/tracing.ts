@@ -0,0 +1,62 @@
+/**
+ * Augur Analytics SDK - Trace Context
+ * W3C traceparent and baggage headers that join sessions to backend traces
+ * https://www.w3.org/TR/trace-context/ and https://www.w3.org/TR/baggage/
+ */
+
+export interface TraceHeaderOptions {
+  sampled?: boolean; // traceparent sampled flag, so backends record the trace (default: true)
+  baggage?: boolean; // Add augur.session_id to the baggage header (default: true)
+}
+
+export const BAGGAGE_SESSION_KEY = "augur.session_id";
+
+/**
+ * Random lowercase hex, from crypto.getRandomValues where available.
+ * All-zero ids are invalid in trace context, so one is never returned.
+ */
+export function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < bytes; i++) {
+      values[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  if (values.every((value) => value === 0)) {
+    values[bytes - 1] = 1;
+  }
+  return Array.from(values, (value) =>
+    value.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * A traceparent for a new trace: version-traceId-parentId-flags
+ */
+export function createTraceparent(sampled = true): string {
+  return `00-${randomHex(16)}-${randomHex(8)}-${sampled ? "01" : "00"}`;
+}
+
+/**
+ * Trace context headers for one request, leaving a traceparent or
+ * session baggage already set (e.g. by OpenTelemetry) untouched
+ */
+export function traceHeaders(
+  sessionId: string,
+  existing: Headers,
+  options: TraceHeaderOptions = {}
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!existing.has("traceparent")) {
+    headers.traceparent = createTraceparent(options.sampled !== false);
+  }
+  if (
+    options.baggage !== false &&
+    !(existing.get("baggage") || "").includes(`${BAGGAGE_SESSION_KEY}=`)
+  ) {
+    headers.baggage = `${BAGGAGE_SESSION_KEY}=${encodeURIComponent(sessionId)}`;
+  }
+  return headers;
+}
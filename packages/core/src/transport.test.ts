@@ -0,0 +1,158 @@
+/**
+ * Unit tests for Augur Analytics transports
+ */
+
+import {
+  BeaconTransport,
+  FetchTransport,
+  FallbackTransport,
+  MemoryTransport,
+  XHRTransport,
+  Transport,
+  TransportRequest,
+} from "./transport";
+
+const request: TransportRequest = {
+  url: "https://test.com/api/v1/analytics/events",
+  body: JSON.stringify([{ event_type: "test_event" }]),
+  contentType: "text/plain",
+};
+
+describe("Transports", () => {
+  describe("BeaconTransport", () => {
+    it("should report failure when sendBeacon is unavailable", async () => {
+      const original = navigator.sendBeacon;
+      Object.defineProperty(navigator, "sendBeacon", {
+        writable: true,
+        configurable: true,
+        value: undefined,
+      });
+
+      const response = await new BeaconTransport().send(request);
+      expect(response.ok).toBe(false);
+
+      Object.defineProperty(navigator, "sendBeacon", {
+        writable: true,
+        configurable: true,
+        value: original,
+      });
+    });
+
+    it("should report whether the beacon was queued", async () => {
+      const sendBeacon = jest.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, "sendBeacon", {
+        writable: true,
+        configurable: true,
+        value: sendBeacon,
+      });
+
+      const response = await new BeaconTransport().send(request);
+
+      expect(response.ok).toBe(true);
+      expect(sendBeacon).toHaveBeenCalledWith(request.url, expect.any(Blob));
+    });
+  });
+
+  describe("FetchTransport", () => {
+    it("should use a custom fetch with extra headers", async () => {
+      const customFetch = jest
+        .fn()
+        .mockResolvedValue({ ok: true, status: 202 });
+      const transport = new FetchTransport({
+        fetch: customFetch as any,
+        headers: { Authorization: "Bearer token" },
+      });
+
+      const response = await transport.send(request);
+
+      expect(response).toEqual({ ok: true, status: 202 });
+      const [url, init] = customFetch.mock.calls[0];
+      expect(url).toBe(request.url);
+      expect(init.headers).toEqual({
+        "Content-Type": "text/plain",
+        Authorization: "Bearer token",
+      });
+      expect(init.keepalive).toBe(true);
+    });
+
+    it("should report non-2xx responses", async () => {
+      const customFetch = jest
+        .fn()
+        .mockResolvedValue({ ok: false, status: 500 });
+      const transport = new FetchTransport({ fetch: customFetch as any });
+
+      const response = await transport.send(request);
+
+      expect(response).toEqual({ ok: false, status: 500 });
+    });
+  });
+
+  describe("XHRTransport", () => {
+    it("should post the body and resolve with the status", async () => {
+      const xhr: any = {
+        open: jest.fn(),
+        setRequestHeader: jest.fn(),
+        getResponseHeader: jest.fn(() => null),
+        send: jest.fn(function (this: any) {
+          xhr.status = 200;
+          xhr.onload();
+        }),
+      };
+      const OriginalXHR = window.XMLHttpRequest;
+      (window as any).XMLHttpRequest = jest.fn(() => xhr);
+
+      const response = await new XHRTransport({
+        headers: { "X-Custom": "1" },
+      }).send(request);
+
+      expect(response).toEqual({ ok: true, status: 200 });
+      expect(xhr.open).toHaveBeenCalledWith("POST", request.url, true);
+      expect(xhr.setRequestHeader).toHaveBeenCalledWith("X-Custom", "1");
+      expect(xhr.send).toHaveBeenCalledWith(request.body);
+
+      (window as any).XMLHttpRequest = OriginalXHR;
+    });
+  });
+
+  describe("MemoryTransport", () => {
+    it("should record requests and flatten events", async () => {
+      const transport = new MemoryTransport();
+
+      await transport.send(request);
+      await transport.send(request);
+
+      expect(transport.requests).toHaveLength(2);
+      expect(transport.getEvents()).toHaveLength(2);
+
+      transport.clear();
+      expect(transport.requests).toHaveLength(0);
+    });
+  });
+
+  describe("FallbackTransport", () => {
+    it("should try the next transport when one fails", async () => {
+      const failing = new MemoryTransport({ ok: false, status: 0 });
+      const succeeding = new MemoryTransport();
+      const transport = new FallbackTransport([failing, succeeding]);
+
+      const response = await transport.send(request);
+
+      expect(response.ok).toBe(true);
+      expect(failing.requests).toHaveLength(1);
+      expect(succeeding.requests).toHaveLength(1);
+    });
+
+    it("should rethrow when the last transport throws", async () => {
+      const throwing: Transport = {
+        name: "throwing",
+        send: jest.fn().mockRejectedValue(new Error("Network error")),
+      };
+      const transport = new FallbackTransport([
+        new MemoryTransport({ ok: false, status: 0 }),
+        throwing,
+      ]);
+
+      await expect(transport.send(request)).rejects.toThrow("Network error");
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Augur Analytics SDK - Transports
+ * Pluggable delivery layer used by AugurAnalytics to send event batches
+ */
+
+import { decodeBatch } from "./compression";
+import { sendUncaptured } from "./network";
+import { parseRetryAfter } from "./retry";
+
+export interface TransportRequest {
+  url: string;
+  body: string | ArrayBuffer; // ArrayBuffer when the batch is gzip compressed
+  contentType: string;
+}
+
+export interface TransportResponse {
+  ok: boolean;
+  status: number; // HTTP status, 0 when the transport cannot observe one
+  retryAfter?: number; // Delay in ms requested through a Retry-After header
+  acknowledged?: boolean; // false when only queued, not confirmed by the server (default: true)
+}
+
+export type DeliveryMode = "beacon" | "acknowledged";
+
+export interface Transport {
+  name: string;
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export interface FetchTransportOptions {
+  fetch?: typeof fetch; // Custom fetch implementation (e.g. a proxy client)
+  headers?: Record<string, string>; // Extra headers added to every request
+  keepalive?: boolean; // Allow the request to outlive the page (default: true)
+}
+
+export interface XHRTransportOptions {
+  headers?: Record<string, string>; // Extra headers added to every request
+  timeout?: number; // Request timeout in ms (default: 0, no timeout)
+}
+
+/**
+ * Send batches with navigator.sendBeacon
+ * A successful response only means the browser queued the request
+ */
+export class BeaconTransport implements Transport {
+  readonly name = "beacon";
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    if (typeof navigator === "undefined" || !navigator.sendBeacon) {
+      return { ok: false, status: 0 };
+    }
+
+    const blob = new Blob([request.body], { type: request.contentType });
+    const queued = navigator.sendBeacon(request.url, blob);
+
+    return { ok: queued, status: 0, acknowledged: false };
+  }
+}
+
+/**
+ * Send batches with fetch
+ */
+export class FetchTransport implements Transport {
+  readonly name = "fetch";
+  private options: FetchTransportOptions;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.options = options;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    // Resolve fetch lazily so test doubles and late polyfills are picked up
+    const fetchImpl = this.options.fetch || fetch;
+
+    const response = await fetchImpl(request.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": request.contentType,
+        ...this.options.headers,
+      },
+      body: request.body,
+      keepalive: this.options.keepalive !== false,
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      retryAfter: parseRetryAfter(response.headers?.get("Retry-After")),
+    };
+  }
+}
+
+/**
+ * Send batches with XMLHttpRequest
+ */
+export class XHRTransport implements Transport {
+  readonly name = "xhr";
+  private options: XHRTransportOptions;
+
+  constructor(options: XHRTransportOptions = {}) {
+    this.options = options;
+  }
+
+  send(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", request.url, true);
+      xhr.setRequestHeader("Content-Type", request.contentType);
+
+      const headers = this.options.headers || {};
+      for (const name of Object.keys(headers)) {
+        xhr.setRequestHeader(name, headers[name]);
+      }
+
+      if (this.options.timeout) {
+        xhr.timeout = this.options.timeout;
+      }
+
+      xhr.onload = () => {
+        resolve({
+          ok: xhr.status >= 200 && xhr.status < 300,
+          status: xhr.status,
+          retryAfter: parseRetryAfter(xhr.getResponseHeader("Retry-After")),
+        });
+      };
+      xhr.onerror = () => reject(new Error("XHR network error"));
+      xhr.ontimeout = () => reject(new Error("XHR request timed out"));
+
+      xhr.send(request.body);
+    });
+  }
+}
+
+/**
+ * Keep batches in memory instead of sending them
+ * Useful as a test double or for inspecting payloads during development
+ */
+export class MemoryTransport implements Transport {
+  readonly name = "memory";
+  readonly requests: TransportRequest[] = [];
+  private response: TransportResponse;
+
+  constructor(response: TransportResponse = { ok: true, status: 200 }) {
+    this.response = response;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    return this.response;
+  }
+
+  /**
+   * All events received so far, flattened across batches
+   * Compressed batches are skipped, decode them with gunzip()
+   */
+  getEvents(): any[] {
+    return this.requests.flatMap((request) =>
+      typeof request.body === "string" ? decodeBatch(request.body) : []
+    );
+  }
+
+  /**
+   * Change the response returned for subsequent requests
+   */
+  setResponse(response: TransportResponse): void {
+    this.response = response;
+  }
+
+  /**
+   * Forget all recorded requests
+   */
+  clear(): void {
+    this.requests.length = 0;
+  }
+}
+
+/**
+ * Try each transport in order until one succeeds
+ * The last transport's result (or error) is returned when all fail
+ */
+export class FallbackTransport implements Transport {
+  readonly name: string;
+  private transports: Transport[];
+
+  constructor(transports: Transport[]) {
+    if (transports.length === 0) {
+      throw new Error("FallbackTransport requires at least one transport");
+    }
+    this.transports = transports;
+    this.name = transports.map((transport) => transport.name).join("+");
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    let lastError: unknown;
+    let lastResponse: TransportResponse | undefined;
+
+    for (const transport of this.transports) {
+      try {
+        // Later transports start after an await, outside the caller's mark
+        lastResponse = await sendUncaptured(() => transport.send(request));
+        lastError = undefined;
+        if (lastResponse.ok) {
+          return lastResponse;
+        }
+      } catch (error) {
+        lastError = error;
+        lastResponse = undefined;
+      }
+    }
+
+    if (lastResponse) {
+      return lastResponse;
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Default transport: Beacon API first, falling back to fetch
+ */
+export function createDefaultTransport(): Transport {
+  return new FallbackTransport([new BeaconTransport(), new FetchTransport()]);
+}
+
+/**
+ * Transports for a delivery mode:
+ * - "beacon": Beacon API with fetch fallback for every flush
+ * - "acknowledged": fetch with response checks for normal flushes, Beacon
+ *   API (with keepalive fetch fallback) only while the page is unloading
+ */
+export function createDeliveryTransports(mode: DeliveryMode): {
+  transport: Transport;
+  unloadTransport: Transport;
+} {
+  if (mode === "acknowledged") {
+    return {
+      transport: new FetchTransport(),
+      unloadTransport: createDefaultTransport(),
+    };
+  }
+
+  const transport = createDefaultTransport();
+  return { transport, unloadTransport: transport };
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for Augur Analytics tracking plan validation
+ */
+
+import {
+  TrackingPlan,
+  compileTrackingPlan,
+  formatViolations,
+  validateEvent,
+} from "./validation";
+
+const plan: TrackingPlan = {
+  events: {
+    signup_clicked: {
+      properties: {
+        plan: { type: "string", enum: ["free", "pro"] },
+        seats: { type: "integer", minimum: 1 },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["plan"],
+    },
+    search: {
+      properties: { query: { type: "string", maxLength: 10 } },
+      additionalProperties: false,
+    },
+  },
+};
+
+describe("Tracking Plan Validation", () => {
+  it("should accept conforming events", () => {
+    expect(
+      validateEvent(plan, "signup_clicked", {
+        plan: "pro",
+        seats: 3,
+        tags: ["a"],
+      })
+    ).toEqual([]);
+  });
+
+  it("should reject events missing from the plan", () => {
+    expect(validateEvent(plan, "signup_clikced")).toEqual([
+      {
+        path: "event",
+        message: '"signup_clikced" is not in the tracking plan',
+      },
+    ]);
+    expect(
+      validateEvent({ ...plan, allowUnplannedEvents: true }, "anything")
+    ).toEqual([]);
+  });
+
+  it("should report required, type, enum and range violations", () => {
+    const violations = validateEvent(plan, "signup_clicked", {
+      seats: 1.5,
+      tags: ["a", 2],
+    });
+
+    expect(formatViolations(violations)).toEqual([
+      "properties.plan: is required",
+      "properties.seats: expected integer, got number",
+      "properties.tags[1]: expected string, got number",
+    ]);
+
+    expect(
+      formatViolations(
+        validateEvent(plan, "signup_clicked", { plan: "gold", seats: 0 })
+      )
+    ).toEqual([
+      'properties.plan: must be one of "free", "pro"',
+      "properties.seats: must be >= 1",
+    ]);
+  });
+
+  it("should reject unknown properties when additionalProperties is false", () => {
+    expect(
+      formatViolations(
+        validateEvent(plan, "search", { query: "a very long query", page: 2 })
+      )
+    ).toEqual([
+      "properties.query: must be at most 10 characters",
+      "properties.page: is not in the tracking plan",
+    ]);
+  });
+
+  it("should report invalid patterns as plan errors instead of throwing", () => {
+    const patterned: TrackingPlan = {
+      events: {
+        order_placed: {
+          properties: {
+            sku: { type: "string", pattern: "^[A-Z]{3}-\\d+$" },
+            coupon: {
+              type: "object",
+              properties: { code: { type: "string", pattern: "([" } },
+            },
+          },
+        },
+      },
+    };
+
+    expect(formatViolations(compileTrackingPlan(patterned))).toEqual([
+      "order_placed.properties.coupon.code: invalid pattern ([",
+    ]);
+
+    expect(
+      formatViolations(
+        validateEvent(patterned, "order_placed", {
+          sku: "abc-1",
+          coupon: { code: "SAVE10" },
+        })
+      )
+    ).toEqual(["properties.sku: must match ^[A-Z]{3}-\\d+$"]);
+    expect(
+      validateEvent(patterned, "order_placed", {
+        sku: "ABC-1",
+        coupon: { code: "SAVE10" },
+      })
+    ).toEqual([]);
+  });
+});
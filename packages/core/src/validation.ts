@@ -0,0 +1,250 @@
+/**
+ * Augur Analytics SDK - Tracking Plan Validation
+ * Runtime checks of event names and properties against a JSON Schema style plan
+ */
+
+export type SchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * Subset of JSON Schema supported for event properties
+ */
+export interface PropertySchema {
+  type?: SchemaType | SchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string; // Regular expression strings must match
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: PropertySchema; // Schema for every array item
+  properties?: Record<string, PropertySchema>; // Nested object properties
+  required?: string[];
+  additionalProperties?: boolean; // Allow properties not listed (default: true)
+  description?: string;
+}
+
+/**
+ * Schema for one event's properties
+ */
+export interface EventSchema {
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+  additionalProperties?: boolean; // Allow properties not listed (default: true)
+  description?: string;
+}
+
+export interface TrackingPlan {
+  events: Record<string, EventSchema>;
+  allowUnplannedEvents?: boolean; // Accept event names missing from the plan (default: false)
+}
+
+export type SchemaValidationMode = "warn" | "drop" | "tag";
+
+export interface SchemaViolation {
+  path: string; // "event" or the property path, e.g. "properties.plan"
+  message: string;
+}
+
+// Patterns compiled once per schema, null when the pattern is invalid
+const compiledPatterns = new WeakMap<PropertySchema, RegExp | null>();
+
+/**
+ * Compile the plan's patterns once, when the plan is loaded. Returns the
+ * errors in the plan itself, e.g. invalid regular expressions; the checks
+ * they belong to are skipped.
+ */
+export function compileTrackingPlan(plan: TrackingPlan): SchemaViolation[] {
+  const errors: SchemaViolation[] = [];
+  for (const event of Object.keys(plan.events)) {
+    const properties = plan.events[event].properties || {};
+    for (const key of Object.keys(properties)) {
+      compileSchema(properties[key], `${event}.properties.${key}`, errors);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate an event name and its properties against a tracking plan
+ * Returns an empty list when the event conforms
+ */
+export function validateEvent(
+  plan: TrackingPlan,
+  event: string,
+  properties: Record<string, any> = {}
+): SchemaViolation[] {
+  const schema = Object.prototype.hasOwnProperty.call(plan.events, event)
+    ? plan.events[event]
+    : undefined;
+
+  if (!schema) {
+    return plan.allowUnplannedEvents
+      ? []
+      : [{ path: "event", message: `"${event}" is not in the tracking plan` }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  validateValue(
+    properties,
+    { ...schema, type: "object" },
+    "properties",
+    violations
+  );
+  return violations;
+}
+
+/**
+ * Format violations as "path: message" strings, e.g. for schema_violations
+ */
+export function formatViolations(violations: SchemaViolation[]): string[] {
+  return violations.map(({ path, message }) => `${path}: ${message}`);
+}
+
+function validateValue(
+  value: unknown,
+  schema: PropertySchema,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(
+      `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    const pattern = compilePattern(schema);
+    if (pattern && !pattern.test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validateValue(item, schema.items!, `${path}[${index}]`, violations)
+    );
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        violations.push({ path: `${path}.${key}`, message: "is required" });
+      }
+    }
+
+    for (const key of Object.keys(object)) {
+      if (object[key] === undefined) {
+        continue;
+      }
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateValue(
+          object[key],
+          propertySchema,
+          `${path}.${key}`,
+          violations
+        );
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          path: `${path}.${key}`,
+          message: "is not in the tracking plan",
+        });
+      }
+    }
+  }
+}
+
+function compileSchema(
+  schema: PropertySchema,
+  path: string,
+  errors: SchemaViolation[]
+): void {
+  if (schema.pattern !== undefined && !compilePattern(schema)) {
+    errors.push({ path, message: `invalid pattern ${schema.pattern}` });
+  }
+  if (schema.items) {
+    compileSchema(schema.items, `${path}[]`, errors);
+  }
+  for (const key of Object.keys(schema.properties || {})) {
+    compileSchema(schema.properties![key], `${path}.${key}`, errors);
+  }
+}
+
+/**
+ * The schema's pattern as a RegExp, or null when it has none or it is
+ * invalid. Plans validated without compileTrackingPlan() compile here.
+ */
+function compilePattern(schema: PropertySchema): RegExp | null {
+  if (schema.pattern === undefined) {
+    return null;
+  }
+  let pattern = compiledPatterns.get(schema);
+  if (pattern === undefined) {
+    try {
+      pattern = new RegExp(schema.pattern);
+    } catch {
+      pattern = null;
+    }
+    compiledPatterns.set(schema, pattern);
+  }
+  return pattern;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  if (type === "integer") {
+    return Number.isInteger(value);
+  }
+  if (type === "number") {
+    return typeof value === "number" && !isNaN(value);
+  }
+  return typeOf(value) === type;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
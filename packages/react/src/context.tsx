@@ -6,48 +6,143 @@ import React, { createContext, useContext, ReactNode } from "react";
 import {
   Analytics,
   createAnalytics,
+  getAnalytics,
   type AugurConfig,
 } from "@augur-ai/analytics-core";
 
-interface AugurContextType {
-  analytics: Analytics | null;
-  isInitialized: boolean;
-}
+// The instance is only missing before it is created (e.g. on the server)
+type AugurContextType =
+  | { analytics: Analytics; isInitialized: true }
+  | { analytics: null; isInitialized: false };
 
-const AugurContext = createContext<AugurContextType>({
-  analytics: null,
-  isInitialized: false,
-});
+// null outside an AugurProvider
+const AugurContext = createContext<AugurContextType | null>(null);
 
 interface AugurProviderProps {
   children: ReactNode;
   config: AugurConfig;
 }
 
+// Destroys scheduled when the last provider of an instance unmounts,
+// cancelled by a remount
+const pendingDestroys = new Map<Analytics, ReturnType<typeof setTimeout>>();
+// Mounted providers per instance, the last to unmount destroys it
+const mountedProviders = new Map<Analytics, number>();
+// Config of the provider that created each instance
+const providerConfigs = new WeakMap<Analytics, AugurConfig>();
+
 export function AugurProvider({ children, config }: AugurProviderProps) {
   const [analytics] = React.useState(() => {
     if (typeof window === "undefined") {
       return null; // SSR support
     }
 
-    return createAnalytics(config);
+    // StrictMode runs this twice, remounts reuse state across HMR and
+    // several providers may share a writeKey, so adopt the live instance
+    // for this writeKey instead of replacing it
+    const existing = getAnalytics(config.writeKey);
+    if (existing) {
+      warnOnConfigMismatch(existing, config);
+      return existing;
+    }
+    const created = createAnalytics(config);
+    providerConfigs.set(created, config);
+    return created;
   });
 
-  const isInitialized = analytics !== null;
+  React.useEffect(() => {
+    if (!analytics) {
+      return;
+    }
+    mountedProviders.set(analytics, (mountedProviders.get(analytics) ?? 0) + 1);
+    clearTimeout(pendingDestroys.get(analytics));
+    pendingDestroys.delete(analytics);
+
+    // Deferred, so StrictMode's unmount/remount and HMR keep the instance
+    return () => {
+      const remaining = (mountedProviders.get(analytics) ?? 1) - 1;
+      if (remaining > 0) {
+        mountedProviders.set(analytics, remaining);
+        return;
+      }
+      mountedProviders.delete(analytics);
+      pendingDestroys.set(
+        analytics,
+        setTimeout(() => {
+          pendingDestroys.delete(analytics);
+          analytics.destroy();
+        })
+      );
+    };
+  }, [analytics]);
+
+  const value: AugurContextType = analytics
+    ? { analytics, isInitialized: true }
+    : { analytics: null, isInitialized: false };
 
   return (
-    <AugurContext.Provider value={{ analytics, isInitialized }}>
-      {children}
-    </AugurContext.Provider>
+    <AugurContext.Provider value={value}>{children}</AugurContext.Provider>
+  );
+}
+
+/**
+ * In debug mode, warn when a provider adopts an instance created with a
+ * different config, since its own config then has no effect
+ */
+function warnOnConfigMismatch(analytics: Analytics, config: AugurConfig) {
+  const original = providerConfigs.get(analytics);
+  if (!original || original === config || !(original.debug || config.debug)) {
+    return;
+  }
+
+  const keys = new Set([
+    ...Object.keys(original),
+    ...Object.keys(config),
+  ]) as Set<keyof AugurConfig>;
+  const differing = [...keys].filter(
+    (key) => !sameConfigValue(original[key], config[key])
   );
+  if (differing.length > 0) {
+    console.warn(
+      `[Augur Analytics] Another AugurProvider already uses writeKey "${
+        config.writeKey
+      }", this provider's ${differing.join(", ")} will be ignored`
+    );
+  }
+}
+
+function sameConfigValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  try {
+    // Inline objects are recreated on every render, compare their contents
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
 }
 
 export function useAugurContext() {
   const context = useContext(AugurContext);
 
-  if (!context.isInitialized) {
+  if (!context || !context.isInitialized) {
     throw new Error("useAugur must be used within an AugurProvider");
   }
 
   return context;
 }
+
+/**
+ * The provider's instance, or null where there is none yet, e.g. while
+ * rendering on the server. For components that must render there.
+ */
+export function useAugurInstance(): Analytics | null {
+  const context = useContext(AugurContext);
+
+  if (!context) {
+    throw new Error("useAugur must be used within an AugurProvider");
+  }
+
+  return context.analytics;
+}
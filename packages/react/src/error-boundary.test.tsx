@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the Augur Analytics error boundary
+ */
+
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { AugurProvider } from "./context";
+import { AugurErrorBoundary } from "./error-boundary";
+
+const mockCaptureError = jest.fn();
+
+jest.mock("@augur-ai/analytics-core", () => ({
+  createAnalytics: jest.fn(() => ({
+    captureError: mockCaptureError,
+    destroy: jest.fn(),
+  })),
+  getAnalytics: jest.fn(),
+}));
+
+let shouldThrow = true;
+
+function Profile() {
+  if (shouldThrow) {
+    throw new Error("profile failed");
+  }
+  return <p>Profile</p>;
+}
+
+describe("AugurErrorBoundary", () => {
+  beforeEach(() => {
+    mockCaptureError.mockClear();
+    shouldThrow = true;
+    // React logs caught render errors
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should report render errors with the component stack", () => {
+    const onError = jest.fn();
+
+    render(
+      <AugurProvider
+        config={{ writeKey: "test-write-key", endpoint: "https://test.com" }}
+      >
+        <AugurErrorBoundary
+          properties={{ feature: "profile" }}
+          onError={onError}
+          fallback={(error, reset) => (
+            <button onClick={reset}>Retry after {error.message}</button>
+          )}
+        >
+          <Profile />
+        </AugurErrorBoundary>
+      </AugurProvider>
+    );
+
+    expect(mockCaptureError).toHaveBeenCalledTimes(1);
+    const [error, properties, source] = mockCaptureError.mock.calls[0];
+    expect(error.message).toBe("profile failed");
+    expect(properties.feature).toBe("profile");
+    expect(properties.component_stack).toContain("Profile");
+    expect(source).toBe("react_error_boundary");
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    shouldThrow = false;
+    fireEvent.click(screen.getByText("Retry after profile failed"));
+
+    expect(screen.getByText("Profile")).toBeTruthy();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * React error boundary for Augur Analytics
+ */
+
+import React, { Component, ErrorInfo, ReactNode } from "react";
+import type { Analytics } from "@augur-ai/analytics-core";
+import { useAugurInstance } from "./context";
+
+export interface AugurErrorBoundaryProps {
+  children: ReactNode;
+  fallback?: ReactNode | ((error: Error, reset: () => void) => ReactNode); // Rendered instead of the children after an error (default: nothing)
+  properties?: Record<string, any>; // Added to the error_occurred event, e.g. the feature name
+  onError?: (error: Error, errorInfo: ErrorInfo) => void;
+}
+
+interface BoundaryProps extends AugurErrorBoundaryProps {
+  analytics: Analytics | null;
+}
+
+interface BoundaryState {
+  error: Error | null;
+}
+
+class ErrorBoundary extends Component<BoundaryProps, BoundaryState> {
+  state: BoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): BoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+    this.props.analytics?.captureError(
+      error,
+      {
+        ...this.props.properties,
+        component_stack: errorInfo.componentStack?.trim(),
+      },
+      "react_error_boundary"
+    );
+    this.props.onError?.(error, errorInfo);
+  }
+
+  private reset = () => this.setState({ error: null });
+
+  render() {
+    const { error } = this.state;
+    if (error) {
+      const { fallback } = this.props;
+      return typeof fallback === "function"
+        ? fallback(error, this.reset)
+        : fallback ?? null;
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * Report render errors of its children as error_occurred events, with the
+ * React component stack, and render a fallback instead
+ */
+export function AugurErrorBoundary(props: AugurErrorBoundaryProps) {
+  // null on the server, where there is nothing to report to
+  const analytics = useAugurInstance();
+  return <ErrorBoundary {...props} analytics={analytics} />;
+}
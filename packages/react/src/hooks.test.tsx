@@ -3,7 +3,8 @@
  */
 
 import React from "react";
-import { renderHook, act } from "@testing-library/react";
+import { renderHook, act, render } from "@testing-library/react";
+import { createAnalytics, getAnalytics } from "@augur-ai/analytics-core";
 import { AugurProvider } from "./context";
 import {
   useTrack,
@@ -11,8 +12,10 @@ import {
   useIdentify,
   useDeviceInfo,
   useAnalyticsSessionId,
+  useSession,
   useFeedId,
   useSetFeedId,
+  useTrackWithFeed,
 } from "./hooks";
 
 // Mock the core analytics
@@ -29,9 +32,18 @@ jest.mock("@augur-ai/analytics-core", () => ({
     timing: jest.fn(),
     metric: jest.fn(),
     getSessionId: jest.fn(() => "test-session-id"),
+    getSession: jest.fn(() => ({
+      sessionId: "test-session-id",
+      startedAt: 1000,
+      lastActivityAt: 1000,
+      sequence: 1,
+      entryPage: "/",
+    })),
+    onSessionChange: jest.fn(() => jest.fn()),
     getFeedId: jest.fn(() => "test-feed-id"),
     setFeedId: jest.fn(),
     trackWithFeed: jest.fn(),
+    destroy: jest.fn(),
     getDeviceInfo: jest.fn(() => ({
       browser: { name: "Chrome", version: "120.0" },
       os: { name: "macOS", version: "14.0" },
@@ -45,6 +57,7 @@ jest.mock("@augur-ai/analytics-core", () => ({
       userAgent: "Mozilla/5.0...",
     })),
   })),
+  getAnalytics: jest.fn(),
   Analytics: class MockAnalytics {},
 }));
 
@@ -75,6 +88,44 @@ describe("React Hooks", () => {
 
       expect(result.current).toBeDefined();
     });
+
+    it("should check events against a catalog type", () => {
+      interface AppEvents {
+        signup_clicked: { plan: "free" | "pro" };
+        logged_out: undefined;
+      }
+      const { result } = renderHook(() => useTrack<AppEvents>(), { wrapper });
+
+      act(() => {
+        result.current("signup_clicked", { plan: "pro" });
+        result.current("logged_out");
+        // @ts-expect-error misspelled event name
+        result.current("signup_clikced", { plan: "pro" });
+        // @ts-expect-error required properties are missing
+        result.current("signup_clicked");
+      });
+
+      expect(result.current).toBeDefined();
+    });
+  });
+
+  describe("useTrackWithFeed", () => {
+    it("should check events against a catalog type", () => {
+      interface AppEvents {
+        signup_clicked: { plan: "free" | "pro" };
+      }
+      const { result } = renderHook(() => useTrackWithFeed<AppEvents>(), {
+        wrapper,
+      });
+
+      act(() => {
+        result.current("signup_clicked", "feed-1", { plan: "free" });
+        // @ts-expect-error plan is not in the catalog's union
+        result.current("signup_clicked", "feed-1", { plan: "enterprise" });
+      });
+
+      expect(result.current).toBeDefined();
+    });
   });
 
   describe("usePage", () => {
@@ -144,6 +195,22 @@ describe("React Hooks", () => {
     });
   });
 
+  describe("useSession", () => {
+    it("should return the session and follow session changes", () => {
+      const { result } = renderHook(() => useSession(), { wrapper });
+      expect(result.current.sessionId).toBe("test-session-id");
+
+      const analytics = (createAnalytics as jest.Mock).mock.results.slice(-1)[0]
+        .value;
+      const listener = analytics.onSessionChange.mock.calls[0][0];
+      act(() => {
+        listener({ ...result.current, sessionId: "next-session-id" }, "reset");
+      });
+
+      expect(result.current.sessionId).toBe("next-session-id");
+    });
+  });
+
   describe("useFeedId", () => {
     it("should return feed ID", () => {
       const { result } = renderHook(() => useFeedId(), { wrapper });
@@ -170,6 +237,87 @@ describe("React Hooks", () => {
     });
   });
 
+  describe("Provider Lifecycle", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+      (getAnalytics as jest.Mock).mockReset();
+    });
+
+    it("should keep one instance through StrictMode and destroy it on unmount", () => {
+      jest.useFakeTimers();
+      (createAnalytics as jest.Mock).mockClear();
+      // Like the core registry: the first instance stays live
+      (getAnalytics as jest.Mock).mockImplementation(
+        () => (createAnalytics as jest.Mock).mock.results[0]?.value
+      );
+
+      const { unmount } = render(
+        <React.StrictMode>{wrapper({ children: <p>App</p> })}</React.StrictMode>
+      );
+      jest.runAllTimers();
+
+      expect(createAnalytics).toHaveBeenCalledTimes(1);
+      const analytics = (createAnalytics as jest.Mock).mock.results[0].value;
+      expect(analytics.destroy).not.toHaveBeenCalled();
+
+      unmount();
+      jest.runAllTimers();
+      expect(analytics.destroy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should destroy a shared instance when its last provider unmounts", () => {
+      jest.useFakeTimers();
+      (createAnalytics as jest.Mock).mockClear();
+      (getAnalytics as jest.Mock).mockImplementation(
+        () => (createAnalytics as jest.Mock).mock.results[0]?.value
+      );
+
+      const first = render(wrapper({ children: <p>Header</p> }));
+      const second = render(wrapper({ children: <p>Widget</p> }));
+      const analytics = (createAnalytics as jest.Mock).mock.results[0].value;
+      expect(createAnalytics).toHaveBeenCalledTimes(1);
+
+      first.unmount();
+      jest.runAllTimers();
+      expect(analytics.destroy).not.toHaveBeenCalled();
+
+      second.unmount();
+      jest.runAllTimers();
+      expect(analytics.destroy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should warn in debug mode when a shared instance's config differs", () => {
+      (createAnalytics as jest.Mock).mockClear();
+      (getAnalytics as jest.Mock).mockImplementation(
+        () => (createAnalytics as jest.Mock).mock.results[0]?.value
+      );
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const config = {
+        writeKey: "test-write-key",
+        endpoint: "https://test.com",
+        debug: true,
+      };
+
+      render(
+        <>
+          <AugurProvider config={config}>
+            <p>Header</p>
+          </AugurProvider>
+          <AugurProvider config={{ ...config }}>
+            <p>Same config</p>
+          </AugurProvider>
+          <AugurProvider config={{ ...config, batchSize: 5 }}>
+            <p>Widget</p>
+          </AugurProvider>
+        </>
+      );
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain("batchSize");
+      warn.mockRestore();
+    });
+  });
+
   describe("Provider Error Handling", () => {
     it("should throw error when hooks used outside provider", () => {
       // Suppress console.error for this test
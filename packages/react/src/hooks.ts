@@ -2,38 +2,47 @@
  * React hooks for Augur Analytics
  */
 
-import { useCallback, useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  Analytics,
+  EventCatalog,
+  EventName,
+  EventProperties,
+  SessionInfo,
+  TrackArgs,
+  TrackWithFeedArgs,
+  UntypedEvents,
+} from "@augur-ai/analytics-core";
 import { useAugurContext } from "./context";
 
 /**
  * Main hook to access Augur Analytics instance
+ * Pass your event catalog type to get a typed instance
  */
-export function useAnalytics() {
+export function useAnalytics<
+  TEvents extends EventCatalog<TEvents> = UntypedEvents
+>(): Analytics<TEvents> {
+  // The provider's instance accepts every event, so it also satisfies the
+  // narrower catalog the caller asks for
   const { analytics } = useAugurContext();
-  return analytics!;
+  return analytics;
 }
 
 /**
  * Hook to track events
+ * Pass your event catalog type to check event names and properties
  */
-export function useTrack() {
-  const analytics = useAnalytics();
+export function useTrack<
+  TEvents extends EventCatalog<TEvents> = UntypedEvents
+>() {
+  const analytics = useAnalytics<TEvents>();
 
   return useCallback(
-    (
-      event: string,
-      properties?: Record<string, any>,
-      feedId?: string,
-      eventName?: string,
-      eventDescription?: string
+    <TName extends EventName<TEvents>>(
+      event: TName,
+      ...args: TrackArgs<EventProperties<TEvents, TName>>
     ) => {
-      return analytics.track(
-        event,
-        properties,
-        feedId,
-        eventName,
-        eventDescription
-      );
+      return analytics.track(event, ...args);
     },
     [analytics]
   );
@@ -175,6 +184,23 @@ export function useAnalyticsSessionId() {
   return analytics.getSessionId();
 }
 
+/**
+ * Hook to get the current session, re-rendering when a session starts
+ * (its sequence is not updated on every event)
+ */
+export function useSession(): SessionInfo {
+  const analytics = useAnalytics();
+  const [session, setSession] = useState(() => analytics.getSession());
+
+  useEffect(() => {
+    // Catch a session change between render and subscribing
+    setSession(analytics.getSession());
+    return analytics.onSessionChange((next) => setSession(next));
+  }, [analytics]);
+
+  return session;
+}
+
 /**
  * Hook to get current feed ID
  */
@@ -199,25 +225,20 @@ export function useSetFeedId() {
 
 /**
  * Hook to track events with feed ID override
+ * Pass your event catalog type to check event names and properties
  */
-export function useTrackWithFeed() {
-  const analytics = useAnalytics();
+export function useTrackWithFeed<
+  TEvents extends EventCatalog<TEvents> = UntypedEvents
+>() {
+  const analytics = useAnalytics<TEvents>();
 
   return useCallback(
-    (
-      event: string,
+    <TName extends EventName<TEvents>>(
+      event: TName,
       feedId: string,
-      properties?: Record<string, any>,
-      eventName?: string,
-      eventDescription?: string
+      ...args: TrackWithFeedArgs<EventProperties<TEvents, TName>>
     ) => {
-      return analytics.trackWithFeed(
-        event,
-        feedId,
-        properties,
-        eventName,
-        eventDescription
-      );
+      return analytics.trackWithFeed(event, feedId, ...args);
     },
     [analytics]
   );
@@ -3,7 +3,7 @@
  * Main entry point for React hooks and components
  */
 
-export { AugurProvider, useAugurContext } from "./context";
+export { AugurProvider, useAugurContext, useAugurInstance } from "./context";
 export {
   useAnalytics,
   useTrack,
@@ -17,6 +17,7 @@ export {
   useTiming,
   useMetric,
   useAnalyticsSessionId,
+  useSession,
   useFeedId,
   useSetFeedId,
   useTrackWithFeed,
@@ -26,6 +27,10 @@ export {
   useFormTracking,
   useDeviceInfo,
 } from "./hooks";
+export { AugurErrorBoundary } from "./error-boundary";
+export type { AugurErrorBoundaryProps } from "./error-boundary";
+export { useRouteTracking } from "./routing";
+export type { RouteMatch, RouteParams } from "./routing";
 
 // Re-export core types
 export type {
@@ -34,4 +39,13 @@ export type {
   AugurPageEvent,
   AugurIdentifyEvent,
   DeviceInfo,
+  ErrorReport,
+  ErrorSource,
+  ErrorTrackingOptions,
+  EventCatalog,
+  EventName,
+  EventProperties,
+  SessionInfo,
+  SessionStartReason,
+  UntypedEvents,
 } from "@augur-ai/analytics-core";
@@ -0,0 +1,121 @@
+"use client";
+
+/**
+ * Next.js (13.4+) integration for Augur Analytics
+ * import { AugurNextAppRouterTracker } from "@augur-ai/analytics-react/next";
+ */
+
+import { useParams, usePathname } from "next/navigation";
+import { useRouter } from "next/router";
+import { useRouteTracking, type RouteParams } from "./routing";
+
+/**
+ * Rebuild an App Router pattern by putting the dynamic segments back
+ * into the pathname: ("/users/42", { id: "42" }) -> "/users/[id]"
+ */
+export function getAppRouterPattern(
+  pathname: string,
+  params: RouteParams
+): string {
+  const segments = pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => safeDecode(segment));
+  let cursor = 0;
+
+  // Params are listed in route order, so search after the previous match
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    const index = findSequence(segments, values, cursor);
+    if (index === -1 || values.length === 0) {
+      continue;
+    }
+
+    const placeholder = Array.isArray(value) ? `[...${name}]` : `[${name}]`;
+    segments.splice(index, values.length, placeholder);
+    cursor = index + 1;
+  }
+
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * Route params of a Pages Router page: the query keys named in its
+ * pattern, e.g. "/users/[id]" picks id but not ?tab=
+ */
+export function getPagesRouterParams(
+  pattern: string,
+  query: Record<string, string | string[] | undefined>
+): RouteParams {
+  const params: RouteParams = {};
+  for (const [, name] of pattern.matchAll(
+    /\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}/g
+  )) {
+    params[name] = query[name];
+  }
+  return params;
+}
+
+/**
+ * Track a page_view with the route pattern (e.g. /users/[id]) on every
+ * App Router navigation. Render it once in your root layout.
+ * Changes to the query string alone are not counted as navigations.
+ */
+export function AugurNextAppRouterTracker() {
+  const pathname = usePathname();
+  const params = useParams() || {};
+
+  useRouteTracking(
+    pathname
+      ? { pattern: getAppRouterPattern(pathname, params), params }
+      : null,
+    pathname || ""
+  );
+
+  return null;
+}
+
+/**
+ * Track a page_view with the route pattern (e.g. /users/[id]) on every
+ * Pages Router navigation. Render it once in pages/_app.
+ */
+export function AugurNextPagesRouterTracker() {
+  const router = useRouter();
+
+  useRouteTracking(
+    router.isReady
+      ? {
+          pattern: router.pathname,
+          params: getPagesRouterParams(router.pathname, router.query),
+        }
+      : null,
+    router.asPath
+  );
+
+  return null;
+}
+
+function findSequence(
+  segments: string[],
+  values: string[],
+  from: number
+): number {
+  for (let i = from; i + values.length <= segments.length; i++) {
+    if (values.every((value, offset) => segments[i + offset] === value)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * React Router (v6.4+) integration for Augur Analytics
+ * import { AugurReactRouterTracker } from "@augur-ai/analytics-react/react-router";
+ */
+
+import { useContext } from "react";
+import {
+  UNSAFE_DataRouterStateContext,
+  matchRoutes,
+  useHref,
+  useLocation,
+  type RouteObject,
+} from "react-router-dom";
+import {
+  joinRoutePaths,
+  useRouteTracking,
+  type RouteMatch,
+  type RouteParams,
+} from "./routing";
+
+interface MatchedRoute {
+  params: RouteParams;
+  route: { path?: string };
+}
+
+/**
+ * Route pattern and params of the deepest match, or the raw pathname
+ * when no route matched
+ */
+export function getRouteMatch(
+  matches: MatchedRoute[] | null,
+  pathname: string
+): RouteMatch {
+  if (!matches || matches.length === 0) {
+    return { pattern: pathname, params: {} };
+  }
+
+  return {
+    pattern: joinRoutePaths(matches.map((match) => match.route.path)),
+    params: { ...matches[matches.length - 1].params },
+  };
+}
+
+export interface AugurReactRouterTrackerProps {
+  routes?: RouteObject[]; // Route config, required unless you use a data router (createBrowserRouter)
+}
+
+/**
+ * Track a page_view with the route pattern (e.g. /users/:id) on every
+ * navigation. Render it once inside your router.
+ */
+export function AugurReactRouterTracker({
+  routes,
+}: AugurReactRouterTrackerProps) {
+  const location = useLocation();
+  const href = useHref(location);
+  const dataRouterState = useContext(UNSAFE_DataRouterStateContext);
+
+  const matches = routes
+    ? matchRoutes(routes, location)
+    : dataRouterState?.matches ?? null;
+
+  useRouteTracking(getRouteMatch(matches, location.pathname), href);
+
+  return null;
+}
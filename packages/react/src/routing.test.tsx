@@ -0,0 +1,233 @@
+/**
+ * Unit tests for Augur Analytics router integrations
+ */
+
+import React from "react";
+import { act, render } from "@testing-library/react";
+import {
+  MemoryRouter,
+  Outlet,
+  RouterProvider,
+  createMemoryRouter,
+  useNavigate,
+} from "react-router-dom";
+import { useParams, usePathname } from "next/navigation";
+import { useRouter } from "next/router";
+import { AugurProvider } from "./context";
+import { AugurReactRouterTracker, getRouteMatch } from "./react-router";
+import {
+  AugurNextAppRouterTracker,
+  AugurNextPagesRouterTracker,
+  getAppRouterPattern,
+  getPagesRouterParams,
+} from "./next";
+import { joinRoutePaths } from "./routing";
+
+const mockPage = jest.fn();
+
+jest.mock("@augur-ai/analytics-core", () => ({
+  createAnalytics: jest.fn(() => ({ page: mockPage, destroy: jest.fn() })),
+  getAnalytics: jest.fn(),
+}));
+
+jest.mock("next/navigation", () => ({
+  usePathname: jest.fn(),
+  useParams: jest.fn(),
+}));
+
+jest.mock("next/router", () => ({
+  useRouter: jest.fn(),
+}));
+
+const Provider = ({ children }: { children: React.ReactNode }) => (
+  <AugurProvider
+    config={{ writeKey: "test-write-key", endpoint: "https://test.com" }}
+  >
+    {children}
+  </AugurProvider>
+);
+
+describe("Router Integrations", () => {
+  beforeEach(() => {
+    mockPage.mockClear();
+  });
+
+  describe("joinRoutePaths", () => {
+    it("should join nested route paths", () => {
+      expect(joinRoutePaths(["/", "users", ":id"])).toBe("/users/:id");
+      expect(joinRoutePaths(["/", undefined, "settings/*"])).toBe(
+        "/settings/*"
+      );
+      expect(joinRoutePaths(["/app", "/app/users"])).toBe("/app/users");
+      expect(joinRoutePaths([undefined])).toBe("/");
+    });
+  });
+
+  describe("AugurReactRouterTracker", () => {
+    const routes = [
+      {
+        path: "/",
+        element: <Outlet />,
+        children: [
+          { index: true, element: null },
+          { path: "users/:id", element: null },
+        ],
+      },
+    ];
+
+    let navigate: ReturnType<typeof useNavigate>;
+    const Navigator = () => {
+      navigate = useNavigate();
+      return null;
+    };
+
+    it("should track route patterns and params", () => {
+      render(
+        <Provider>
+          <MemoryRouter initialEntries={["/users/42"]}>
+            <Navigator />
+            <AugurReactRouterTracker routes={routes} />
+          </MemoryRouter>
+        </Provider>
+      );
+
+      act(() => navigate("/users/7?tab=posts"));
+      act(() => navigate("/users/7?tab=posts"));
+
+      expect(mockPage).toHaveBeenCalledTimes(2);
+      expect(mockPage.mock.calls[0][0]).toMatchObject({
+        path: "/users/:id",
+        url: "http://localhost/users/42",
+        route_params: { id: "42" },
+      });
+      expect(mockPage.mock.calls[1][0]).toMatchObject({
+        path: "/users/:id",
+        url: "http://localhost/users/7?tab=posts",
+        referrer: "http://localhost/users/42",
+        previous_path: "/users/:id",
+        route_params: { id: "7" },
+      });
+    });
+
+    it("should read matches from a data router", () => {
+      const router = createMemoryRouter(
+        [
+          {
+            path: "/",
+            element: (
+              <>
+                <AugurReactRouterTracker />
+                <Outlet />
+              </>
+            ),
+            children: [{ path: "orders/:orderId", element: null }],
+          },
+        ],
+        { initialEntries: ["/orders/abc"] }
+      );
+
+      render(
+        <Provider>
+          <RouterProvider router={router} />
+        </Provider>
+      );
+
+      expect(mockPage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: "/orders/:orderId",
+          route_params: { orderId: "abc" },
+        })
+      );
+    });
+
+    it("should fall back to the pathname without a match", () => {
+      expect(getRouteMatch(null, "/unknown")).toEqual({
+        pattern: "/unknown",
+        params: {},
+      });
+    });
+  });
+
+  describe("Next.js", () => {
+    it("should rebuild App Router patterns", () => {
+      expect(getAppRouterPattern("/users/42", { id: "42" })).toBe(
+        "/users/[id]"
+      );
+      expect(
+        getAppRouterPattern("/shop/shoes/docs/a/b", {
+          category: "shoes",
+          slug: ["a", "b"],
+        })
+      ).toBe("/shop/[category]/docs/[...slug]");
+      expect(
+        getAppRouterPattern("/blog/hello%20world", { post: "hello world" })
+      ).toBe("/blog/[post]");
+    });
+
+    it("should pick Pages Router params from the query", () => {
+      expect(
+        getPagesRouterParams("/users/[id]/[[...tab]]", {
+          id: "42",
+          tab: ["posts"],
+          ref: "email",
+        })
+      ).toEqual({ id: "42", tab: ["posts"] });
+    });
+
+    it("should track App Router navigations", () => {
+      (usePathname as jest.Mock).mockReturnValue("/users/42");
+      (useParams as jest.Mock).mockReturnValue({ id: "42" });
+
+      render(
+        <Provider>
+          <AugurNextAppRouterTracker />
+        </Provider>
+      );
+
+      expect(mockPage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: "/users/[id]",
+          url: "http://localhost/users/42",
+          route_params: { id: "42" },
+        })
+      );
+    });
+
+    it("should wait for the Pages Router to be ready", () => {
+      const router = {
+        isReady: false,
+        pathname: "/users/[id]",
+        asPath: "/users/[id]",
+        query: {},
+      };
+      (useRouter as jest.Mock).mockImplementation(() => router);
+
+      const { rerender } = render(
+        <Provider>
+          <AugurNextPagesRouterTracker />
+        </Provider>
+      );
+      expect(mockPage).not.toHaveBeenCalled();
+
+      Object.assign(router, {
+        isReady: true,
+        asPath: "/users/42?ref=email",
+        query: { id: "42", ref: "email" },
+      });
+      rerender(
+        <Provider>
+          <AugurNextPagesRouterTracker />
+        </Provider>
+      );
+
+      expect(mockPage).toHaveBeenCalledTimes(1);
+      expect(mockPage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: "/users/[id]",
+          url: "http://localhost/users/42?ref=email",
+          route_params: { id: "42" },
+        })
+      );
+    });
+  });
+});
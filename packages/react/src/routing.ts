@@ -0,0 +1,68 @@
+/**
+ * Route-aware page tracking shared by the router integrations
+ */
+
+import { useEffect, useRef } from "react";
+import { useAugurInstance } from "./context";
+
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+export interface RouteMatch {
+  pattern: string; // Route pattern, e.g. /users/:id or /users/[id]
+  params: RouteParams; // Values of the pattern's dynamic segments
+}
+
+/**
+ * Track a page_view whenever the URL changes, reporting the route pattern
+ * as path and the dynamic segments as route_params. Pass null while the
+ * route is not known yet (e.g. before the Next.js router is ready).
+ * href may be relative: it is resolved against window.location in the
+ * effect, so rendering on the server never reads it.
+ */
+export function useRouteTracking(route: RouteMatch | null, href: string) {
+  const analytics = useAugurInstance();
+  const lastUrl = useRef<string>();
+  const lastPattern = useRef<string>();
+  const referrer = useRef<string>();
+
+  useEffect(() => {
+    if (!analytics) {
+      return;
+    }
+    const url = new URL(href, window.location.href).href;
+    // Refs survive StrictMode's double effect, so each URL is tracked once
+    if (!route || url === lastUrl.current) {
+      return;
+    }
+
+    analytics.page({
+      path: route.pattern,
+      url,
+      referrer: referrer.current ?? document.referrer,
+      ...(lastPattern.current !== undefined && {
+        previous_path: lastPattern.current,
+      }),
+      route_params: route.params,
+    });
+
+    lastUrl.current = url;
+    lastPattern.current = route.pattern;
+    referrer.current = url;
+  }, [analytics, route?.pattern, href]);
+}
+
+/**
+ * Join nested route paths into one pattern
+ * ["/", "users", ":id"] -> "/users/:id"
+ */
+export function joinRoutePaths(paths: (string | undefined)[]): string {
+  let pattern = "";
+  for (const path of paths) {
+    if (!path) {
+      continue;
+    }
+    // Absolute child paths already contain their parents
+    pattern = path.startsWith("/") ? path : `${pattern}/${path}`;
+  }
+  return `/${pattern.split("/").filter(Boolean).join("/")}`;
+}
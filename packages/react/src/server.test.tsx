@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for rendering Augur Analytics components on the server
+ */
+
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { MemoryRouter } from "react-router-dom";
+import { useParams, usePathname } from "next/navigation";
+import { useRouter } from "next/router";
+import { createAnalytics } from "@augur-ai/analytics-core";
+import { AugurProvider } from "./context";
+import { AugurErrorBoundary } from "./error-boundary";
+import { AugurReactRouterTracker } from "./react-router";
+import { AugurNextAppRouterTracker, AugurNextPagesRouterTracker } from "./next";
+
+jest.mock("@augur-ai/analytics-core", () => ({
+  createAnalytics: jest.fn(),
+  getAnalytics: jest.fn(),
+}));
+
+jest.mock("next/navigation", () => ({
+  usePathname: jest.fn(() => "/users/42"),
+  useParams: jest.fn(() => ({ id: "42" })),
+}));
+
+jest.mock("next/router", () => ({
+  useRouter: jest.fn(() => ({
+    isReady: true,
+    pathname: "/users/[id]",
+    asPath: "/users/42",
+    query: { id: "42" },
+  })),
+}));
+
+describe("Server Rendering", () => {
+  it("should render trackers and error boundaries without window", () => {
+    expect(typeof window).toBe("undefined");
+
+    const html = renderToString(
+      <AugurProvider
+        config={{ writeKey: "test-write-key", endpoint: "https://test.com" }}
+      >
+        <AugurErrorBoundary>
+          <MemoryRouter initialEntries={["/users/42"]}>
+            <AugurReactRouterTracker routes={[{ path: "/users/:id" }]} />
+          </MemoryRouter>
+          <AugurNextAppRouterTracker />
+          <AugurNextPagesRouterTracker />
+          <p>Profile</p>
+        </AugurErrorBoundary>
+      </AugurProvider>
+    );
+
+    expect(html).toContain("Profile");
+    expect(createAnalytics).not.toHaveBeenCalled();
+    expect(usePathname).toHaveBeenCalled();
+    expect(useParams).toHaveBeenCalled();
+    expect(useRouter).toHaveBeenCalled();
+  });
+});